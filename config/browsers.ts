@@ -0,0 +1,32 @@
+import { devices } from '@playwright/test';
+
+/**
+ * Browser projects
+ * Each browser project runs the suite with the Playwright device profile of one desktop browser.
+ * Specs that open browser contexts of their own look the profile up by project name.
+ */
+export const projectDevices = {
+  chromium: 'Desktop Chrome',
+  firefox: 'Desktop Firefox',
+  webkit: 'Desktop Safari',
+} as const;
+
+/** Name of a browser project in playwright.config.ts */
+export type BrowserProjectName = keyof typeof projectDevices;
+
+function isBrowserProject(name: string): name is BrowserProjectName {
+  return name in projectDevices;
+}
+
+/**
+ * Get the device profile of a browser project
+ * @param projectName - The project name, e.g. testInfo.project.name
+ * @returns The device's viewport, user agent, scale factor and touch options
+ * @throws Error if the project is not a browser project
+ */
+export function deviceFor(projectName: string): (typeof devices)[string] {
+  if (!isBrowserProject(projectName)) {
+    throw new Error(`"${projectName}" is not a browser project. Use one of: ${Object.keys(projectDevices).join(', ')}`);
+  }
+  return devices[projectDevices[projectName]];
+}
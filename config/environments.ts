@@ -0,0 +1,129 @@
+/**
+ * Environment profiles for the test suite
+ * A profile supplies the base URL, credentials and timeouts for one deployment of SauceDemo.
+ * The active profile is selected with the TEST_ENV environment variable (or the --env flag of
+ * `npm run test:env`) and is the single source of URLs for the Playwright config, page objects and specs.
+ */
+
+/** Names of the available environment profiles */
+export type EnvironmentName = 'prod' | 'staging' | 'local';
+
+/** Credentials of the default user for an environment */
+export interface EnvironmentCredentials {
+  username: string;
+  password: string;
+}
+
+/** Timeouts applied to the Playwright config, in milliseconds */
+export interface EnvironmentTimeouts {
+  /** Maximum time each action can take */
+  action: number;
+  /** Maximum time for navigation */
+  navigation: number;
+  /** Maximum time for an expect assertion to pass */
+  expect: number;
+  /** Maximum time for a whole test */
+  test: number;
+}
+
+/** A named environment profile */
+export interface EnvironmentProfile {
+  name: EnvironmentName;
+  baseURL: string;
+  credentials: EnvironmentCredentials;
+  timeouts: EnvironmentTimeouts;
+  /** Start the bundled SauceDemo stand-in server (server/) before running tests */
+  startLocalServer: boolean;
+}
+
+/** Port the bundled stand-in server listens on in the local profile */
+export const LOCAL_SERVER_PORT = Number(process.env.SAUCEDEMO_LOCAL_PORT) || 3100;
+
+const DEFAULT_CREDENTIALS: EnvironmentCredentials = {
+  username: 'standard_user',
+  password: 'secret_sauce',
+};
+
+const REMOTE_TIMEOUTS: EnvironmentTimeouts = {
+  action: 10000,
+  navigation: 30000,
+  expect: 5000,
+  test: 120000,
+};
+
+/**
+ * Available environment profiles
+ * - prod: the public https://www.saucedemo.com site
+ * - staging: a SauceDemo deployment whose URL is given in STAGING_BASE_URL
+ * - local: the bundled stand-in server, started by Playwright through webServer
+ */
+export const environments: Record<EnvironmentName, EnvironmentProfile> = {
+  prod: {
+    name: 'prod',
+    baseURL: 'https://www.saucedemo.com',
+    credentials: DEFAULT_CREDENTIALS,
+    timeouts: REMOTE_TIMEOUTS,
+    startLocalServer: false,
+  },
+  staging: {
+    name: 'staging',
+    baseURL: process.env.STAGING_BASE_URL ?? '',
+    credentials: DEFAULT_CREDENTIALS,
+    timeouts: REMOTE_TIMEOUTS,
+    startLocalServer: false,
+  },
+  local: {
+    name: 'local',
+    baseURL: `http://localhost:${LOCAL_SERVER_PORT}`,
+    credentials: DEFAULT_CREDENTIALS,
+    timeouts: {
+      action: 5000,
+      navigation: 10000,
+      expect: 5000,
+      test: 60000,
+    },
+    startLocalServer: true,
+  },
+};
+
+/**
+ * Check whether a value is the name of an environment profile
+ * @param name - The value to check
+ * @returns True if the value names a profile, false otherwise
+ */
+export function isEnvironmentName(name: string): name is EnvironmentName {
+  return Object.prototype.hasOwnProperty.call(environments, name);
+}
+
+/**
+ * Resolve the active environment profile
+ * Applies BASE_URL, SAUCEDEMO_USERNAME and SAUCEDEMO_PASSWORD overrides on top of the selected profile
+ * @param name - The profile name, defaults to TEST_ENV or 'prod'
+ * @returns The resolved environment profile
+ */
+export function resolveEnvironment(name: string = process.env.TEST_ENV ?? 'prod'): EnvironmentProfile {
+  if (!isEnvironmentName(name)) {
+    throw new Error(
+      `Unknown environment "${name}". Set TEST_ENV to one of: ${Object.keys(environments).join(', ')}`
+    );
+  }
+
+  const profile = environments[name];
+  const baseURL = process.env.BASE_URL ?? profile.baseURL;
+
+  if (!baseURL) {
+    throw new Error(`Environment "${name}" has no base URL. Set STAGING_BASE_URL or BASE_URL before running it`);
+  }
+
+  return {
+    ...profile,
+    baseURL: baseURL.replace(/\/+$/, ''),
+    credentials: {
+      username: process.env.SAUCEDEMO_USERNAME ?? profile.credentials.username,
+      password: process.env.SAUCEDEMO_PASSWORD ?? profile.credentials.password,
+    },
+  };
+}
+
+/** The active environment profile */
+export const environment: EnvironmentProfile = resolveEnvironment();
@@ -0,0 +1,54 @@
+/**
+ * Performance budgets per page object
+ * Timings recorded by the page objects (see utils/performance.ts) are compared with these budgets.
+ * A timing over budget is reported by the performance reporter; it does not fail the test.
+ */
+
+/** Timings the page objects record */
+export type TimingMetric =
+  /** Time from the start of a navigation with goto() until the load event ended */
+  | 'navigation'
+  /** Time from clicking Login until the product list is visible */
+  | 'login-to-inventory'
+  /** Time from clicking the cart link until the cart list is visible */
+  | 'cart-render';
+
+/** Budgets in milliseconds of one page object, by metric */
+export type PageBudgets = Partial<Record<TimingMetric, number>>;
+
+/** Budgets in milliseconds, keyed by page object class name */
+export const performanceBudgets: Record<string, PageBudgets> = {
+  LoginPage: {
+    navigation: 3000,
+    'login-to-inventory': 2500,
+  },
+  ProductsPage: {
+    navigation: 3000,
+  },
+  ProductDetailsPage: {
+    navigation: 3000,
+  },
+  CartPage: {
+    navigation: 3000,
+    'cart-render': 2000,
+  },
+  CheckoutInfoPage: {
+    navigation: 3000,
+  },
+  CheckoutOverviewPage: {
+    navigation: 3000,
+  },
+  CheckoutCompletePage: {
+    navigation: 3000,
+  },
+};
+
+/**
+ * Get the budget of a timing
+ * @param pageName - The page object class name
+ * @param metric - The timing metric
+ * @returns The budget in milliseconds, or undefined if the page has no budget for the metric
+ */
+export function getBudget(pageName: string, metric: TimingMetric): number | undefined {
+  return performanceBudgets[pageName]?.[metric];
+}
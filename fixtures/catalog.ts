@@ -0,0 +1,162 @@
+import { expect } from '@playwright/test';
+import { InventoryItem, CartButtonState } from '../models/inventory-item';
+import { Money } from '../utils/money';
+
+/**
+ * Expected SauceDemo product catalog
+ * The six products as standard_user sees them on the products page, in the default Name (A to Z) order.
+ */
+
+/** Name of a product in the catalog */
+export type ProductName =
+  | 'Sauce Labs Backpack'
+  | 'Sauce Labs Bike Light'
+  | 'Sauce Labs Bolt T-Shirt'
+  | 'Sauce Labs Fleece Jacket'
+  | 'Sauce Labs Onesie'
+  | 'Test.allTheThings() T-Shirt (Red)';
+
+/** Values of the products page sort dropdown */
+export enum SortOption {
+  NameAZ = 'az',
+  NameZA = 'za',
+  PriceLowHigh = 'lohi',
+  PriceHighLow = 'hilo',
+}
+
+/** A product in the expected catalog */
+export interface CatalogProduct {
+  id: number;
+  name: ProductName;
+  description: string;
+  price: Money;
+  /** Image file name without the content hash (e.g. 'sauce-backpack-1200x1500') */
+  image: string;
+}
+
+export const catalog: CatalogProduct[] = [
+  {
+    id: 4,
+    name: 'Sauce Labs Backpack',
+    description:
+      'carry.allTheThings() with the sleek, streamlined Sly Pack that melds uncompromising style with unequaled laptop and tablet protection.',
+    price: Money.fromCents(2999),
+    image: 'sauce-backpack-1200x1500',
+  },
+  {
+    id: 0,
+    name: 'Sauce Labs Bike Light',
+    description:
+      "A red light isn't the desired state in testing but it sure helps when riding your bike at night. Water-resistant with 3 lighting modes, 1 AAA battery included.",
+    price: Money.fromCents(999),
+    image: 'bike-light-1200x1500',
+  },
+  {
+    id: 1,
+    name: 'Sauce Labs Bolt T-Shirt',
+    description:
+      'Get your testing superhero on with the Sauce Labs bolt T-shirt. From American Apparel, 100% ringspun combed cotton, heather gray with red bolt.',
+    price: Money.fromCents(1599),
+    image: 'bolt-shirt-1200x1500',
+  },
+  {
+    id: 5,
+    name: 'Sauce Labs Fleece Jacket',
+    description:
+      "It's not every day that you come across a midweight quarter-zip fleece jacket capable of handling everything from a relaxing day outdoors to a busy day at the office.",
+    price: Money.fromCents(4999),
+    image: 'sauce-pullover-1200x1500',
+  },
+  {
+    id: 2,
+    name: 'Sauce Labs Onesie',
+    description:
+      "Rib snap infant onesie for the junior automation engineer in development. Reinforced 3-snap bottom closure, two-needle hemmed sleeved and bottom won't unravel.",
+    price: Money.fromCents(799),
+    image: 'red-onesie-1200x1500',
+  },
+  {
+    id: 3,
+    name: 'Test.allTheThings() T-Shirt (Red)',
+    description:
+      'This classic Sauce Labs t-shirt is perfect to wear when cooking up some robots. Super-soft and comfy ringspun combed cotton.',
+    price: Money.fromCents(1599),
+    image: 'red-tatt-1200x1500',
+  },
+];
+
+/** Names of all catalog products, in A to Z order */
+export const PRODUCT_NAMES: ProductName[] = catalog.map(product => product.name);
+
+/**
+ * Check whether a value is the name of a catalog product
+ * @param name - The value to check
+ * @returns True if the catalog has a product with that name, false otherwise
+ */
+export function isProductName(name: string): name is ProductName {
+  return (PRODUCT_NAMES as string[]).includes(name);
+}
+
+/**
+ * Get a catalog product by name
+ * @param name - The product name
+ * @returns The catalog product
+ * @throws Error if the catalog has no product with that name
+ */
+export function catalogProduct(name: string): CatalogProduct {
+  const product = catalog.find(candidate => candidate.name === name);
+  if (!product) {
+    throw new Error(`Product "${name}" is not in the catalog`);
+  }
+  return product;
+}
+
+/** An inventory item as the products page is expected to show it */
+export interface ExpectedInventoryItem extends Omit<InventoryItem, 'imageSrc'> {
+  /** Asymmetric matcher for the src attribute of the product image */
+  imageSrc: ReturnType<typeof expect.stringContaining>;
+}
+
+/**
+ * Build the inventory items the products page is expected to show, for whole-catalog assertions
+ * The image is matched by file name, since the content hash differs between deployments.
+ * @param addedProducts - Names of the products in the cart, which show a Remove button
+ * @param products - The products in expected display order (default: the catalog in A to Z order)
+ * @returns Expected items to compare with ProductsPage.getInventoryItems() using toEqual
+ */
+export function expectedInventoryItems(
+  addedProducts: string[] = [],
+  products: CatalogProduct[] = catalog
+): ExpectedInventoryItem[] {
+  return products.map(product => ({
+    id: product.id,
+    name: product.name,
+    description: product.description,
+    price: product.price,
+    imageSrc: expect.stringContaining(product.image),
+    buttonState: (addedProducts.includes(product.name) ? 'remove' : 'add') as CartButtonState,
+  }));
+}
+
+/**
+ * Get the catalog in the order a sort option should display it
+ * Products with equal prices keep their A to Z order, as on SauceDemo.
+ * @param option - The sort option
+ * @returns A sorted copy of the catalog
+ */
+export function sortedCatalog(option: SortOption): CatalogProduct[] {
+  const byName = [...catalog].sort((a, b) => a.name.localeCompare(b.name));
+
+  switch (option) {
+    case SortOption.NameAZ:
+      return byName;
+    case SortOption.NameZA:
+      return byName.reverse();
+    case SortOption.PriceLowHigh:
+      return byName.sort((a, b) => a.price.compare(b.price));
+    case SortOption.PriceHighLow:
+      return byName.sort((a, b) => b.price.compare(a.price));
+    default:
+      throw new Error(`Unknown sort option "${option}"`);
+  }
+}
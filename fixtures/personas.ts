@@ -0,0 +1,151 @@
+import { environment, EnvironmentCredentials } from '../config/environments';
+
+/**
+ * Persona registry covering every account SauceDemo ships
+ * Each persona records the quirks the application exhibits for that account and the test cases
+ * that are expected to fail because of them. Specs run across personas with runForPersonas()
+ * from utils/persona-matrix.ts, which turns these declarations into expected failures.
+ */
+
+/** Usernames of the SauceDemo accounts */
+export type PersonaName =
+  | 'standard_user'
+  | 'locked_out_user'
+  | 'problem_user'
+  | 'performance_glitch_user'
+  | 'error_user'
+  | 'visual_user';
+
+/** Known quirks of a SauceDemo account */
+export interface PersonaQuirks {
+  /** Login is rejected with the persona's loginError */
+  lockedOut: boolean;
+  /** Product images are missing or wrong */
+  brokenImages: boolean;
+  /** Login takes several seconds before the products page is shown */
+  slowLogin: boolean;
+  /** Some buttons and form fields do nothing or act on the wrong element */
+  failingButtons: boolean;
+  /** Layout, styling or displayed values drift from the standard user */
+  visualDrift: boolean;
+}
+
+/** A SauceDemo account and its expected behavior */
+export interface Persona {
+  name: PersonaName;
+  username: string;
+  description: string;
+  quirks: PersonaQuirks;
+  /** Error shown on the login page, for personas that cannot log in */
+  loginError?: string;
+  /** Test IDs (e.g. 'TC-07') expected to fail for this persona, mapped to the reason */
+  expectedFailures: Record<string, string>;
+}
+
+/** Time to allow for the products page after logging in as a persona with slowLogin */
+export const SLOW_LOGIN_TIMEOUT = 15000;
+
+const NO_QUIRKS: PersonaQuirks = {
+  lockedOut: false,
+  brokenImages: false,
+  slowLogin: false,
+  failingButtons: false,
+  visualDrift: false,
+};
+
+/** All SauceDemo personas, keyed by username */
+export const personas: Record<PersonaName, Persona> = {
+  standard_user: {
+    name: 'standard_user',
+    username: 'standard_user',
+    description: 'Baseline account with no known quirks',
+    quirks: NO_QUIRKS,
+    expectedFailures: {},
+  },
+  locked_out_user: {
+    name: 'locked_out_user',
+    username: 'locked_out_user',
+    description: 'Account that is refused at login',
+    quirks: { ...NO_QUIRKS, lockedOut: true },
+    loginError: 'Epic sadface: Sorry, this user has been locked out.',
+    expectedFailures: {},
+  },
+  problem_user: {
+    name: 'problem_user',
+    username: 'problem_user',
+    description: 'Broken images, unresponsive cart buttons, no-op sorting and a broken last name field',
+    quirks: { ...NO_QUIRKS, brokenImages: true, failingButtons: true },
+    expectedFailures: {
+      'TC-07': 'Remove button on the products page does nothing for the backpack',
+      'TC-16': 'Every product shows the same placeholder image',
+      'TC-17': 'Sorting leaves the products in their default order',
+      'TC-18': 'Sorting leaves the products in their default order',
+      'TC-19': 'Sorting leaves the products in their default order',
+      'PC-02': 'Every product shows the same placeholder image',
+      'PC-03': 'Typing in Last Name overwrites First Name, so checkout reports a missing last name',
+      'VR-02': 'Every product shows the same placeholder image',
+      'VR-03': 'The product shows the placeholder image',
+      'VR-06': 'Typing in Last Name overwrites First Name, so checkout stops on the information page',
+      'VR-07': 'Typing in Last Name overwrites First Name, so checkout stops on the information page',
+    },
+  },
+  performance_glitch_user: {
+    name: 'performance_glitch_user',
+    username: 'performance_glitch_user',
+    description: 'Login takes several seconds to reach the products page',
+    quirks: { ...NO_QUIRKS, slowLogin: true },
+    expectedFailures: {},
+  },
+  error_user: {
+    name: 'error_user',
+    username: 'error_user',
+    description: 'Some add-to-cart buttons, sorting, the last name field and Finish fail with errors',
+    quirks: { ...NO_QUIRKS, failingButtons: true },
+    expectedFailures: {
+      'TC-17': 'Sorting raises "Sorting is broken!" and leaves the order unchanged',
+      'TC-18': 'Sorting raises "Sorting is broken!" and leaves the order unchanged',
+      'TC-19': 'Sorting raises "Sorting is broken!" and leaves the order unchanged',
+      'PC-03': 'Last Name field ignores input, so checkout reports a missing last name',
+      'VR-06': 'Last Name field ignores input, so checkout stops on the information page',
+      'VR-07': 'Last Name field ignores input, so checkout stops on the information page',
+    },
+  },
+  visual_user: {
+    name: 'visual_user',
+    username: 'visual_user',
+    description: 'Misplaced cart icon, wrong backpack image and scrambled prices on the products page',
+    quirks: { ...NO_QUIRKS, brokenImages: true, visualDrift: true },
+    expectedFailures: {
+      'TC-16': 'Displayed prices are scrambled and the backpack shows the placeholder image',
+      'TC-17': 'Displayed prices are scrambled and the backpack shows the placeholder image',
+      'TC-18': 'Displayed prices are scrambled, so the list does not read low to high',
+      'TC-19': 'Displayed prices are scrambled, so the list does not read high to low',
+      'PC-02': 'The backpack shows the placeholder image',
+      'VR-02': 'The cart icon is misplaced, prices are scrambled and the backpack shows the placeholder image',
+      'VR-03': 'The cart icon is misplaced and the backpack shows the placeholder image',
+      'VR-04': 'The cart icon is misplaced',
+      'VR-05': 'The cart icon is misplaced',
+      'VR-06': 'The cart icon is misplaced',
+      'VR-07': 'The cart icon is misplaced',
+    },
+  },
+};
+
+/** Names of all personas, in registry order */
+export const personaNames = Object.keys(personas) as PersonaName[];
+
+/** Personas that can log in */
+export const loginPersonaNames = personaNames.filter(name => !personas[name].quirks.lockedOut);
+
+/**
+ * Get the login credentials for a persona
+ * All SauceDemo accounts share the password of the active environment profile
+ * @param name - The persona name
+ * @returns The persona's username and password
+ */
+export function personaCredentials(name: PersonaName): EnvironmentCredentials {
+  return {
+    username: personas[name].username,
+    password: environment.credentials.password,
+  };
+}
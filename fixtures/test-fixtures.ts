@@ -0,0 +1,277 @@
+import { test as base, expect as baseExpect, Page } from '@playwright/test';
+import { ShopperFlows } from '../flows/ShopperFlows';
+import { LoginPage } from '../pages/LoginPage';
+import { ProductsPage } from '../pages/ProductsPage';
+import { ProductDetailsPage } from '../pages/ProductDetailsPage';
+import { CartPage } from '../pages/CartPage';
+import { CheckoutInfoPage } from '../pages/CheckoutInfoPage';
+import { CheckoutOverviewPage } from '../pages/CheckoutOverviewPage';
+import { CheckoutCompletePage } from '../pages/CheckoutCompletePage';
+import { AppState, describeSessionChanges, SAVES_SESSIONS_ANNOTATION } from '../utils/app-state';
+import { loadSessionCookies, readSavedSessions } from '../utils/auth-state';
+import { applyHarMode, assertNoMissingRequests } from '../utils/har';
+import { getKnownBug, KNOWN_BUG_ANNOTATION } from '../utils/known-bugs';
+import { sauceDemoMatchers } from '../utils/matchers';
+import {
+  describeBreach,
+  isOverBudget,
+  PERFORMANCE_ATTACHMENT,
+  PERFORMANCE_BREACH_ANNOTATION,
+  takeTimings,
+} from '../utils/performance';
+import { DATA_SEED_ANNOTATION, runDataSeed, TestDataFactory, testDataSeed } from '../utils/test-data-factory';
+import { findTestId } from '../utils/test-id';
+import { verifyCart } from '../utils/verify-cart';
+import { PersonaName, personaCredentials, personas, SLOW_LOGIN_TIMEOUT } from './personas';
+
+/**
+ * Page objects provided to every test
+ * Playwright only creates a fixture when a test (or hook) asks for it, so each page object is built lazily
+ */
+export interface PageObjectFixtures {
+  loginPage: LoginPage;
+  productsPage: ProductsPage;
+  productDetailsPage: ProductDetailsPage;
+  cartPage: CartPage;
+  checkoutInfoPage: CheckoutInfoPage;
+  checkoutOverviewPage: CheckoutOverviewPage;
+  checkoutCompletePage: CheckoutCompletePage;
+}
+
+/**
+ * Authentication fixtures
+ */
+export interface AuthFixtures {
+  /** Persona (see fixtures/personas.ts) the authenticated session is created for; override with test.use({ persona }) */
+  persona: PersonaName;
+  /**
+   * The test page, logged in as the persona and showing the products page
+   * Reuses the session saved by tests/auth.setup.ts and falls back to the login form when none was saved
+   */
+  authenticatedPage: Page;
+}
+
+/**
+ * Business flows
+ */
+export interface FlowFixtures {
+  /** Runs purchase, abandon and logout/login journeys on the test page, one test.step per business step */
+  flows: ShopperFlows;
+}
+
+/**
+ * Cart verification
+ */
+export interface CartFixtures {
+  /**
+   * Checks the cart shown on the current page (badge, product buttons, cart rows or checkout overview items)
+   * against the shadow cart that page object cart actions keep up to date
+   */
+  verifyCart: () => Promise<void>;
+}
+
+/**
+ * Application state
+ */
+export interface AppStateFixtures {
+  /** Reads, seeds and clears the session and cart of the test page without going through the UI */
+  appState: AppState;
+}
+
+/**
+ * Generated test data
+ */
+export interface TestDataFixtures {
+  /**
+   * Generates customer details and credentials from the test's seed
+   * The test is annotated with the DATA_SEED that repeats its data, which is also attached when it fails
+   */
+  dataFactory: TestDataFactory;
+}
+
+/**
+ * Known-bug tracking
+ */
+export interface KnownBugFixtures {
+  /**
+   * Runs for every test; marks tests annotated with knownBug() as expected to fail while the bug is open
+   * An open bug that no longer reproduces makes the test pass unexpectedly, which fails the run
+   */
+  knownBugTracking: void;
+}
+
+/**
+ * Performance tracking
+ */
+export interface PerformanceFixtures {
+  /**
+   * Runs for every test; attaches the timings page objects recorded as performance-timings.json
+   * and adds a performance-budget-breach annotation for each timing over its budget
+   */
+  performanceTracking: void;
+}
+
+/**
+ * Test object extended with page objects and a logged-in session
+ * Specs import { test, expect } from this file instead of '@playwright/test'
+ */
+export const test = base.extend<
+  PageObjectFixtures &
+    AuthFixtures &
+    FlowFixtures &
+    CartFixtures &
+    AppStateFixtures &
+    TestDataFixtures &
+    KnownBugFixtures &
+    PerformanceFixtures
+>({
+  // Every page of a test opens in this context, so HAR recording and replay apply to all of them
+  context: async ({ context }, use, testInfo) => {
+    const missingRequests = await applyHarMode(context, testInfo);
+    const savedSessions = readSavedSessions();
+
+    await use(context);
+
+    assertNoMissingRequests(testInfo.file, missingRequests);
+
+    // The context goes with the test; the saved sessions stay for the next test to restore
+    const leaks = describeSessionChanges(savedSessions, readSavedSessions());
+    if (leaks.length > 0 && !testInfo.annotations.some(annotation => annotation.type === SAVES_SESSIONS_ANNOTATION)) {
+      throw new Error(
+        `"${testInfo.title}" left state for the next test: it ${leaks.join(', ')}. ` +
+          `Only tests annotated with '${SAVES_SESSIONS_ANNOTATION}' may change playwright/.auth.`
+      );
+    }
+  },
+
+  loginPage: async ({ page }, use) => {
+    await use(new LoginPage(page));
+  },
+
+  productsPage: async ({ page }, use) => {
+    await use(new ProductsPage(page));
+  },
+
+  productDetailsPage: async ({ page }, use) => {
+    await use(new ProductDetailsPage(page));
+  },
+
+  cartPage: async ({ page }, use) => {
+    await use(new CartPage(page));
+  },
+
+  checkoutInfoPage: async ({ page }, use) => {
+    await use(new CheckoutInfoPage(page));
+  },
+
+  checkoutOverviewPage: async ({ page }, use) => {
+    await use(new CheckoutOverviewPage(page));
+  },
+
+  checkoutCompletePage: async ({ page }, use) => {
+    await use(new CheckoutCompletePage(page));
+  },
+
+  persona: ['standard_user', { option: true }],
+
+  authenticatedPage: async ({ page, context, loginPage, persona }, use) => {
+    const credentials = personaCredentials(persona);
+    const sessionCookies = loadSessionCookies(credentials.username);
+
+    if (sessionCookies) {
+      // Restore the saved session and open the products page directly
+      await context.addCookies(sessionCookies);
+      await page.goto('/inventory.html');
+    } else {
+      // No saved session for this persona, log in through the login form
+      await loginPage.navigate();
+      await loginPage.loginAndWaitForInventory(
+        credentials,
+        personas[persona].quirks.slowLogin ? SLOW_LOGIN_TIMEOUT : undefined
+      );
+    }
+
+    await expect(page).toHaveURL(/.*inventory\.html/, {
+      timeout: personas[persona].quirks.slowLogin ? SLOW_LOGIN_TIMEOUT : undefined,
+    });
+
+    await use(page);
+  },
+
+  flows: async ({ page, persona }, use) => {
+    await use(new ShopperFlows(page, persona));
+  },
+
+  appState: async ({ page }, use) => {
+    await use(new AppState(page));
+  },
+
+  dataFactory: async ({}, use, testInfo) => {
+    testInfo.annotations.push({ type: DATA_SEED_ANNOTATION, description: `DATA_SEED=${runDataSeed}` });
+
+    await use(new TestDataFactory(testDataSeed(runDataSeed, testInfo.titlePath)));
+
+    if (testInfo.status !== testInfo.expectedStatus) {
+      await testInfo.attach('data-seed.txt', {
+        body: `Rerun with DATA_SEED=${runDataSeed} to repeat the generated data`,
+        contentType: 'text/plain',
+      });
+    }
+  },
+
+  verifyCart: async ({ page }, use) => {
+    await use(() => verifyCart(page));
+  },
+
+  knownBugTracking: [
+    async ({}, use, testInfo) => {
+      const testId = findTestId(testInfo.title, testInfo.annotations);
+
+      for (const annotation of testInfo.annotations) {
+        if (annotation.type !== KNOWN_BUG_ANNOTATION || !annotation.description) {
+          continue;
+        }
+
+        const bugId = annotation.description;
+        const bug = getKnownBug(bugId);
+        if (!testId || !bug.testIds.includes(testId)) {
+          throw new Error(`${bugId} does not list ${testId ?? testInfo.title} in fixtures/known-bugs.json`);
+        }
+
+        testInfo.fail(bug.status === 'open', `${bugId}: ${bug.title}`);
+      }
+
+      await use();
+    },
+    { auto: true },
+  ],
+
+  performanceTracking: [
+    async ({}, use, testInfo) => {
+      // Drop anything left over from code that ran outside a test
+      takeTimings();
+
+      await use();
+
+      const timings = takeTimings();
+      if (timings.length === 0) {
+        return;
+      }
+
+      for (const timing of timings.filter(isOverBudget)) {
+        testInfo.annotations.push({ type: PERFORMANCE_BREACH_ANNOTATION, description: describeBreach(timing) });
+      }
+      await testInfo.attach(PERFORMANCE_ATTACHMENT, {
+        body: JSON.stringify(timings, null, 2),
+        contentType: 'application/json',
+      });
+    },
+    { auto: true },
+  ],
+});
+
+/**
+ * expect with the SauceDemo matchers (utils/matchers.ts): toHaveCartCount, toBeSortedBy, toShowProductAsAdded,
+ * toHaveOrderTotals and toBeOnPage
+ */
+export const expect = baseExpect.extend(sauceDemoMatchers);
@@ -0,0 +1,207 @@
+import { expect, Page, test } from '@playwright/test';
+import { ProductName } from '../fixtures/catalog';
+import { PersonaName, personaCredentials, personas, SLOW_LOGIN_TIMEOUT } from '../fixtures/personas';
+import { CustomerInfo } from '../models/customer-info';
+import { OrderReceipt, OrderReceiptItem } from '../models/order-receipt';
+import { AppPage, AppPages, createAppPages } from '../utils/app-model';
+import { testData } from '../utils/test-data';
+
+/**
+ * Business flows of a shopper
+ * Each flow chains page object calls into a journey (buy these products, log out and back in, leave the
+ * checkout halfway) and reports every business step as a named test.step, so a failure names the step
+ * that broke ("Enter customer details") rather than only the locator that timed out.
+ */
+
+/** Checkout pages a purchase can be abandoned on */
+export type AbandonableStep = Extract<AppPage, 'cart' | 'checkout-info' | 'checkout-overview'>;
+
+/** A purchase to make */
+export interface PurchaseOptions {
+  /**
+   * Persona to log in as through the login form first
+   * When omitted, the purchase starts from the current session (e.g. the authenticatedPage fixture)
+   */
+  persona?: PersonaName;
+  /** Products to buy, in the order they are added */
+  products: ProductName[];
+  /** Customer details to check out with (default: testData.customerInfo.valid) */
+  customer?: CustomerInfo;
+}
+
+/**
+ * ShopperFlows class runs whole journeys through the page objects of one page
+ * Cart changes go through the page objects, so the shadow cart and verifyCart() stay in step.
+ */
+export class ShopperFlows {
+  private readonly pages: AppPages;
+
+  /**
+   * @param page - The Playwright page
+   * @param persona - Persona the test is logged in as, used when a flow logs in again (default: standard_user)
+   */
+  constructor(page: Page, private readonly persona: PersonaName = 'standard_user') {
+    this.pages = createAppPages(page);
+  }
+
+  /**
+   * Buy products: log in if asked, add the products, check out with the customer details and finish the order
+   * @param options - Persona, products and customer
+   * @returns The order as the overview and confirmation pages showed it
+   */
+  async purchase(options: PurchaseOptions): Promise<OrderReceipt> {
+    const customer = options.customer ?? testData.customerInfo.valid;
+    const username = await this.startShopping(options);
+    await this.enterCustomerDetails(customer);
+    const items = await this.reviewOrder();
+
+    return await test.step('Finish the order', async () => {
+      const { page, checkoutOverviewPage, checkoutCompletePage } = this.pages;
+      const receipt = {
+        username,
+        customer,
+        items,
+        subtotal: await checkoutOverviewPage.getSubtotal(),
+        tax: await checkoutOverviewPage.getTax(),
+        total: await checkoutOverviewPage.getTotal(),
+      };
+
+      await checkoutOverviewPage.clickFinish();
+      await expect(page).toHaveURL(/.*checkout-complete\.html/);
+
+      return {
+        ...receipt,
+        confirmationHeader: await checkoutCompletePage.getConfirmationHeader(),
+        confirmationText: await checkoutCompletePage.getConfirmationMessage(),
+      };
+    });
+  }
+
+  /**
+   * Go through a purchase up to a checkout page, then leave it the way a shopper would
+   * - cart: Continue Shopping, back to the products page
+   * - checkout-info: Cancel, back to the cart
+   * - checkout-overview: Cancel, back to the products page
+   * The cart keeps the products either way.
+   * @param step - The page to leave the purchase on
+   * @param options - Persona, products and customer, as for purchase()
+   */
+  async abandonAtStep(step: AbandonableStep, options: PurchaseOptions): Promise<void> {
+    await this.startShopping(options, step === 'cart');
+    if (step === 'checkout-overview') {
+      await this.enterCustomerDetails(options.customer ?? testData.customerInfo.valid);
+    }
+
+    await test.step(`Abandon the purchase on the ${step} page`, async () => {
+      const { page, cartPage, checkoutInfoPage, checkoutOverviewPage } = this.pages;
+      switch (step) {
+        case 'cart':
+          await cartPage.continueShopping();
+          await expect(page).toHaveURL(/.*inventory\.html/);
+          break;
+        case 'checkout-info':
+          await checkoutInfoPage.clickCancel();
+          await expect(page).toHaveURL(/.*cart\.html/);
+          break;
+        case 'checkout-overview':
+          await checkoutOverviewPage.clickCancel();
+          await expect(page).toHaveURL(/.*inventory\.html/);
+          break;
+      }
+    });
+  }
+
+  /**
+   * Log out with the burger menu and log back in through the login form
+   * SauceDemo keeps the cart with the user, so the cart is left as it was.
+   * @param persona - Persona to log back in as (default: the persona the flows were created for)
+   */
+  async logoutAndLogin(persona: PersonaName = this.persona): Promise<void> {
+    await test.step('Log out', async () => {
+      const { page, productsPage } = this.pages;
+      await productsPage.header.logout();
+      await expect(page).not.toHaveURL(/.*inventory\.html/);
+    });
+
+    await this.logIn(persona, 'Log in again');
+  }
+
+  /**
+   * Log in if asked, fill the cart and go to checkout step one, or stop on the cart page
+   * @returns The username the purchase is made as
+   */
+  private async startShopping(options: PurchaseOptions, stopAtCart = false): Promise<string> {
+    if (options.persona) {
+      await this.logIn(options.persona, 'Log in');
+    } else {
+      await test.step('Open the products page', async () => {
+        const { page, productsPage } = this.pages;
+        if (!/inventory\.html/.test(page.url())) {
+          await productsPage.goto('/inventory.html');
+        }
+        await expect(page).toHaveURL(/.*inventory\.html/);
+      });
+    }
+
+    await test.step(`Add ${options.products.join(', ')} to the cart`, async () => {
+      for (const product of options.products) {
+        await this.pages.productsPage.addProductToCart(product);
+      }
+    });
+
+    await test.step('Open the cart', async () => {
+      await this.pages.productsPage.goToCart();
+      await expect(this.pages.page).toHaveURL(/.*cart\.html/);
+    });
+
+    if (!stopAtCart) {
+      await test.step('Check out', async () => {
+        await this.pages.cartPage.proceedToCheckout();
+        await expect(this.pages.page).toHaveURL(/.*checkout-step-one\.html/);
+      });
+    }
+
+    return personaCredentials(options.persona ?? this.persona).username;
+  }
+
+  /**
+   * Log in through the login form and wait for the products page, allowing extra time for slow logins
+   */
+  private async logIn(persona: PersonaName, stepName: string): Promise<void> {
+    await test.step(`${stepName} as ${persona}`, async () => {
+      const { page, loginPage } = this.pages;
+      await loginPage.navigate();
+      const timeout = personas[persona].quirks.slowLogin ? SLOW_LOGIN_TIMEOUT : undefined;
+      await loginPage.loginAndWaitForInventory(personaCredentials(persona), timeout);
+      await expect(page).toHaveURL(/.*inventory\.html/, { timeout });
+    });
+  }
+
+  /**
+   * Fill checkout step one and continue to the overview
+   */
+  private async enterCustomerDetails(customer: CustomerInfo): Promise<void> {
+    await test.step('Enter customer details', async () => {
+      await this.pages.checkoutInfoPage.fillCustomerInfo(customer);
+      await this.pages.checkoutInfoPage.clickContinue();
+      await expect(this.pages.page).toHaveURL(/.*checkout-step-two\.html/);
+    });
+  }
+
+  /**
+   * Read the ordered products from the checkout overview
+   */
+  private async reviewOrder(): Promise<OrderReceiptItem[]> {
+    return await test.step('Review the order', async () => {
+      const items: OrderReceiptItem[] = [];
+      for (const lineItem of await this.pages.checkoutOverviewPage.getLineItems()) {
+        items.push({
+          name: await lineItem.getName(),
+          quantity: await lineItem.getQuantity(),
+          price: await lineItem.getPrice(),
+        });
+      }
+      return items;
+    });
+  }
+}
@@ -0,0 +1,9 @@
+/**
+ * Customer details entered on the checkout information page
+ */
+export interface CustomerInfo {
+  firstName: string;
+  lastName: string;
+  /** Postal or zip code, as typed (SauceDemo does not check its format) */
+  postalCode: string;
+}
@@ -0,0 +1,18 @@
+import { Money } from '../utils/money';
+
+/** State of a product's cart button: 'add' shows "Add to cart", 'remove' shows "Remove" */
+export type CartButtonState = 'add' | 'remove';
+
+/**
+ * A product as displayed on the products page
+ */
+export interface InventoryItem {
+  /** SauceDemo item id, as used in /inventory-item.html?id= */
+  id: number;
+  name: string;
+  description: string;
+  price: Money;
+  /** The src attribute of the product image */
+  imageSrc: string;
+  buttonState: CartButtonState;
+}
@@ -0,0 +1,30 @@
+import { Money } from '../utils/money';
+import { CustomerInfo } from './customer-info';
+
+/**
+ * A product line of a placed order, as listed on the checkout overview page
+ */
+export interface OrderReceiptItem {
+  name: string;
+  quantity: number;
+  price: Money;
+}
+
+/**
+ * An order placed through the checkout, as SauceDemo showed it
+ */
+export interface OrderReceipt {
+  /** Username the order was placed as */
+  username: string;
+  customer: CustomerInfo;
+  /** Products in display order */
+  items: OrderReceiptItem[];
+  /** The overview's "Item total" */
+  subtotal: Money;
+  tax: Money;
+  total: Money;
+  /** Header of the confirmation page, e.g. "Thank you for your order!" */
+  confirmationHeader: string;
+  /** Message below the confirmation header */
+  confirmationText: string;
+}
@@ -0,0 +1,17 @@
+import { Page } from '@playwright/test';
+import { BasePage } from './BasePage';
+import { HeaderComponent } from './components/HeaderComponent';
+
+/**
+ * AuthenticatedPage class is the base of every page object behind the login
+ * Adds the shared header with the cart link and badge, the page title and the burger menu
+ */
+export class AuthenticatedPage extends BasePage {
+  /** The header shared by every page behind the login */
+  readonly header: HeaderComponent;
+
+  constructor(page: Page) {
+    super(page);
+    this.header = new HeaderComponent(page);
+  }
+}
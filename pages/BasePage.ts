@@ -1,24 +1,59 @@
-import { Page, expect } from '@playwright/test';
+import { existsSync } from 'fs';
+import { Locator, Page, expect, test } from '@playwright/test';
+import { LocatorDefinition, locators, resolveLocator } from './locators';
+import { auditAccessibility } from '../utils/accessibility';
+import { recordTiming } from '../utils/performance';
+import { ShadowCart, shadowCartFor } from '../utils/shadow-cart';
+
+/** A registered locator from pages/locators.ts, or a raw selector string */
+export type Selector = LocatorDefinition | string;
 
 /**
  * BasePage class provides common functionality for all page objects
- * Implements navigation, element interactions, assertions, and screenshot capture
+ * Implements navigation, element interactions, assertions, screenshot capture, visual checks and accessibility audits
  */
 export class BasePage {
   protected page: Page;
-  protected baseURL: string;
 
   constructor(page: Page) {
     this.page = page;
-    this.baseURL = 'https://www.saucedemo.com';
   }
 
   /**
-   * Navigate to a specific path relative to the base URL
+   * The expected cart contents for this page, updated by page object cart actions
+   * Shared by every page object of the same Playwright page
+   */
+  protected get shadowCart(): ShadowCart {
+    return shadowCartFor(this.page);
+  }
+
+  /**
+   * Get a Playwright locator for a registered locator or selector string
+   * @param selector - The registered locator (e.g. locators.cart.checkoutButton) or a selector string
+   * @param within - Resolve inside this element instead of the whole page
+   * @returns The Playwright locator
+   */
+  protected locate(selector: Selector, within?: Locator): Locator {
+    const root = within ?? this.page;
+    return typeof selector === 'string' ? root.locator(selector) : resolveLocator(root, selector);
+  }
+
+  /**
+   * Navigate to a specific path relative to the configured base URL
+   * The base URL comes from `use.baseURL` in playwright.config.ts, which is set by the active environment profile.
+   * The navigation's load time is recorded against the page object's navigation budget.
    * @param path - The path to navigate to (e.g., '/inventory.html')
    */
   async goto(path: string): Promise<void> {
-    await this.page.goto(`${this.baseURL}${path}`);
+    await this.page.goto(path);
+
+    const loadTime = await this.page.evaluate(() => {
+      const [navigation] = performance.getEntriesByType('navigation') as PerformanceNavigationTiming[];
+      return navigation?.loadEventEnd ?? 0;
+    });
+    if (loadTime > 0) {
+      recordTiming(this.constructor.name, 'navigation', loadTime);
+    }
   }
 
   /**
@@ -32,40 +67,40 @@ export class BasePage {
 
   /**
    * Click on an element identified by selector
-   * @param selector - The CSS selector or locator string
+   * @param selector - The registered locator or selector string
    */
-  async click(selector: string): Promise<void> {
-    await this.page.locator(selector).click();
+  async click(selector: Selector): Promise<void> {
+    await this.locate(selector).click();
   }
 
   /**
    * Fill a form field with text
-   * @param selector - The CSS selector or locator string
+   * @param selector - The registered locator or selector string
    * @param text - The text to fill in the field
    */
-  async fill(selector: string, text: string): Promise<void> {
-    await this.page.locator(selector).fill(text);
+  async fill(selector: Selector, text: string): Promise<void> {
+    await this.locate(selector).fill(text);
   }
 
   /**
    * Get the text content of an element
-   * @param selector - The CSS selector or locator string
+   * @param selector - The registered locator or selector string
    * @returns The text content of the element
    */
-  async getText(selector: string): Promise<string> {
-    const element = this.page.locator(selector);
+  async getText(selector: Selector): Promise<string> {
+    const element = this.locate(selector);
     const text = await element.textContent();
     return text?.trim() || '';
   }
 
   /**
    * Check if an element is visible on the page
-   * @param selector - The CSS selector or locator string
+   * @param selector - The registered locator or selector string
    * @returns True if the element is visible, false otherwise
    */
-  async isVisible(selector: string): Promise<boolean> {
+  async isVisible(selector: Selector): Promise<boolean> {
     try {
-      return await this.page.locator(selector).isVisible();
+      return await this.locate(selector).isVisible();
     } catch {
       return false;
     }
@@ -73,19 +108,66 @@ export class BasePage {
 
   /**
    * Assert that an element is visible on the page
-   * @param selector - The CSS selector or locator string
+   * @param selector - The registered locator or selector string
    */
-  async expectVisible(selector: string): Promise<void> {
-    await expect(this.page.locator(selector)).toBeVisible();
+  async expectVisible(selector: Selector): Promise<void> {
+    await expect(this.locate(selector)).toBeVisible();
   }
 
   /**
    * Assert that an element contains specific text
-   * @param selector - The CSS selector or locator string
+   * @param selector - The registered locator or selector string
    * @param text - The expected text content
    */
-  async expectText(selector: string, text: string): Promise<void> {
-    await expect(this.page.locator(selector)).toHaveText(text);
+  async expectText(selector: Selector, text: string): Promise<void> {
+    await expect(this.locate(selector)).toHaveText(text);
+  }
+
+  /**
+   * Regions hidden from visual checks because their content changes between runs
+   * Page objects with dynamic content of their own extend this list
+   * @returns Locators painted over before the screenshot is compared
+   */
+  protected visualMasks(): Locator[] {
+    // The footer carries the copyright year
+    return [this.locate(locators.footer.copyright)];
+  }
+
+  /**
+   * Assert that the full page matches its stored baseline screenshot
+   * Baselines are kept per environment and browser project (see `expect.toHaveScreenshot` in playwright.config.ts).
+   * On a mismatch the expected, actual and diff images are attached to the HTML report.
+   * @param name - The baseline name, e.g. 'products'
+   * @param options.compareOnly - Fail instead of writing the baseline when it is missing
+   */
+  async expectToMatchBaseline(name: string, options: { compareOnly?: boolean } = {}): Promise<void> {
+    const baselinePath = test.info().snapshotPath(`${name}.png`, { kind: 'screenshot' });
+    if (options.compareOnly && !existsSync(baselinePath)) {
+      throw new Error(`No baseline to compare with at ${baselinePath}; capture it with npm run test:visual:update`);
+    }
+
+    await expect(this.page).toHaveScreenshot(`${name}.png`, {
+      fullPage: true,
+      mask: this.visualMasks(),
+    });
+  }
+
+  /**
+   * The part of the page this page object owns, used to scope accessibility audits
+   * Page objects narrow it to their own content so shared chrome is not reported by every page
+   * @returns CSS selectors of the audited elements
+   */
+  protected accessibilityRegion(): string[] {
+    return ['body'];
+  }
+
+  /**
+   * Audit the page object's region for WCAG 2.1 A and AA violations
+   * Violations accepted for this page object in fixtures/a11y-baseline.json are ignored; any other
+   * violation fails the test with a list of the offending data-test elements, without stopping it.
+   */
+  async auditAccessibility(): Promise<void> {
+    await auditAccessibility(this.page, this.constructor.name, this.accessibilityRegion());
   }
 
   /**
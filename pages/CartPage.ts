@@ -1,39 +1,49 @@
 import { Page } from '@playwright/test';
-import { BasePage } from './BasePage';
+import { AuthenticatedPage } from './AuthenticatedPage';
+import { exactText } from './components/BaseComponent';
+import { CartItemRow } from './components/CartItemRow';
+import { locators } from './locators';
+import { ProductName } from '../fixtures/catalog';
 
 /**
  * CartPage class handles interactions with the shopping cart page
  * Provides methods for viewing cart items, removing items, and navigation
  */
-export class CartPage extends BasePage {
-  // Selectors for cart page elements
-  private readonly cartItems = '.cart_item';
-  private readonly cartItemName = '.inventory_item_name';
-  private readonly continueShoppingButton = '#continue-shopping';
-  private readonly checkoutButton = '#checkout';
-  private readonly cartBadge = '.shopping_cart_badge';
+export class CartPage extends AuthenticatedPage {
+  // Registered locators for cart page elements
+  private readonly ui = locators.cart;
 
   constructor(page: Page) {
     super(page);
   }
 
   /**
-   * Get a dynamic selector for the remove button of a specific product
-   * @param productName - The name of the product
-   * @returns The selector string for the remove button
+   * The cart list and its buttons
    */
-  private getRemoveButtonSelector(productName: string): string {
-    // Find the cart item containing the product name and get its remove button
-    return `//div[@class='cart_item']//div[@class='inventory_item_name' and text()='${productName}']/ancestor::div[@class='cart_item']//button[contains(@id, 'remove')]`;
+  protected accessibilityRegion(): string[] {
+    return ['#cart_contents_container'];
   }
 
   /**
-   * Get a dynamic selector for a specific cart item by product name
-   * @param productName - The name of the product
-   * @returns The selector string for the cart item
+   * Get the row of a product in the cart
+   * @param productName - The exact name of the product
+   * @returns The cart row component
    */
-  private getCartItemSelector(productName: string): string {
-    return `//div[@class='cart_item']//div[@class='inventory_item_name' and text()='${productName}']`;
+  getCartItem(productName: ProductName): CartItemRow {
+    return new CartItemRow(
+      this.locate(this.ui.cartItem).filter({
+        has: this.locate(this.ui.itemName).filter({ hasText: exactText(productName) }),
+      })
+    );
+  }
+
+  /**
+   * Get every row in the cart
+   * @returns The cart row components in display order
+   */
+  async getCartItems(): Promise<CartItemRow[]> {
+    const rows = await this.locate(this.ui.cartItem).all();
+    return rows.map(row => new CartItemRow(row));
   }
 
   /**
@@ -41,7 +51,7 @@ export class CartPage extends BasePage {
    * @returns Array of product names in the cart
    */
   async getCartItemNames(): Promise<string[]> {
-    const itemElements = await this.page.locator(this.cartItemName).all();
+    const itemElements = await this.locate(this.ui.itemName).all();
     const names: string[] = [];
     
     for (const element of itemElements) {
@@ -58,23 +68,22 @@ export class CartPage extends BasePage {
    * Remove a specific item from the cart by product name
    * @param productName - The name of the product to remove
    */
-  async removeItem(productName: string): Promise<void> {
-    const removeButtonSelector = this.getRemoveButtonSelector(productName);
-    await this.page.locator(removeButtonSelector).click();
+  async removeItem(productName: ProductName): Promise<void> {
+    await this.getCartItem(productName).remove();
   }
 
   /**
    * Click the "Continue Shopping" button to return to products page
    */
   async continueShopping(): Promise<void> {
-    await this.click(this.continueShoppingButton);
+    await this.click(this.ui.continueShoppingButton);
   }
 
   /**
    * Click the "Checkout" button to proceed to checkout
    */
   async proceedToCheckout(): Promise<void> {
-    await this.click(this.checkoutButton);
+    await this.click(this.ui.checkoutButton);
   }
 
   /**
@@ -82,24 +91,8 @@ export class CartPage extends BasePage {
    * @param productName - The name of the product to check
    * @returns True if the product is in the cart, false otherwise
    */
-  async isItemInCart(productName: string): Promise<boolean> {
-    const itemSelector = this.getCartItemSelector(productName);
-    return await this.isVisible(itemSelector);
-  }
-
-  /**
-   * Get the count of items in the cart from the cart badge
-   * @returns The number of items in the cart, or 0 if badge is not visible
-   */
-  async getCartItemCount(): Promise<number> {
-    const isBadgeVisible = await this.isVisible(this.cartBadge);
-    
-    if (!isBadgeVisible) {
-      return 0;
-    }
-    
-    const badgeText = await this.getText(this.cartBadge);
-    return parseInt(badgeText, 10) || 0;
+  async isItemInCart(productName: ProductName): Promise<boolean> {
+    return await this.getCartItem(productName).locator.isVisible();
   }
 
   /**
@@ -114,7 +107,7 @@ export class CartPage extends BasePage {
    * @returns The count of cart item elements
    */
   async getCartItemElementCount(): Promise<number> {
-    return await this.page.locator(this.cartItems).count();
+    return await this.locate(this.ui.cartItem).count();
   }
 
   /**
@@ -1,26 +1,32 @@
 import { Page } from '@playwright/test';
-import { BasePage } from './BasePage';
+import { AuthenticatedPage } from './AuthenticatedPage';
+import { locators } from './locators';
 
 /**
  * CheckoutCompletePage class represents the order confirmation page
  * Displayed after successfully completing a checkout
  */
-export class CheckoutCompletePage extends BasePage {
-  // Selectors
-  private confirmationHeader: string = '.complete-header';
-  private confirmationMessage: string = '.complete-text';
-  private backHomeButton: string = '#back-to-products';
+export class CheckoutCompletePage extends AuthenticatedPage {
+  // Registered locators
+  private readonly ui = locators.checkoutComplete;
 
   constructor(page: Page) {
     super(page);
   }
 
+  /**
+   * The order confirmation
+   */
+  protected accessibilityRegion(): string[] {
+    return ['#checkout_complete_container'];
+  }
+
   /**
    * Get the confirmation header text
    * @returns The header text displayed on the confirmation page
    */
   async getConfirmationHeader(): Promise<string> {
-    return await this.getText(this.confirmationHeader);
+    return await this.getText(this.ui.confirmationHeader);
   }
 
   /**
@@ -28,7 +34,7 @@ export class CheckoutCompletePage extends BasePage {
    * @returns The message text displayed on the confirmation page
    */
   async getConfirmationMessage(): Promise<string> {
-    return await this.getText(this.confirmationMessage);
+    return await this.getText(this.ui.confirmationMessage);
   }
 
   /**
@@ -37,8 +43,8 @@ export class CheckoutCompletePage extends BasePage {
    * @returns True if order completion is confirmed, false otherwise
    */
   async isOrderComplete(): Promise<boolean> {
-    const headerVisible = await this.isVisible(this.confirmationHeader);
-    const messageVisible = await this.isVisible(this.confirmationMessage);
+    const headerVisible = await this.isVisible(this.ui.confirmationHeader);
+    const messageVisible = await this.isVisible(this.ui.confirmationMessage);
     return headerVisible && messageVisible;
   }
 
@@ -47,6 +53,6 @@ export class CheckoutCompletePage extends BasePage {
    * Clicks the "Back Home" button
    */
   async goBackHome(): Promise<void> {
-    await this.click(this.backHomeButton);
+    await this.click(this.ui.backHomeButton);
   }
 }
@@ -1,27 +1,27 @@
 import { Page } from '@playwright/test';
-import { BasePage } from './BasePage';
+import { CustomerInfo } from '../models/customer-info';
+import { AuthenticatedPage } from './AuthenticatedPage';
+import { locators } from './locators';
 
 /**
  * CheckoutInfoPage class handles the checkout information form page
  * Provides methods to fill customer information and handle form validation
  */
-export class CheckoutInfoPage extends BasePage {
-  // Selectors for form inputs
-  private firstNameInput = '[data-test="firstName"]';
-  private lastNameInput = '[data-test="lastName"]';
-  private postalCodeInput = '[data-test="postalCode"]';
-  
-  // Selectors for action buttons
-  private continueButton = '[data-test="continue"]';
-  private cancelButton = '[data-test="cancel"]';
-  
-  // Selector for error message
-  private errorMessage = '[data-test="error"]';
+export class CheckoutInfoPage extends AuthenticatedPage {
+  // Registered locators for form inputs, action buttons and the error message
+  private readonly ui = locators.checkoutInfo;
 
   constructor(page: Page) {
     super(page);
   }
 
+  /**
+   * The customer information form
+   */
+  protected accessibilityRegion(): string[] {
+    return ['#checkout_info_container'];
+  }
+
   /**
    * Fill in the checkout information form with customer details
    * @param firstName - Customer's first name
@@ -29,23 +29,31 @@ export class CheckoutInfoPage extends BasePage {
    * @param postalCode - Customer's postal/zip code
    */
   async fillCheckoutInfo(firstName: string, lastName: string, postalCode: string): Promise<void> {
-    await this.fill(this.firstNameInput, firstName);
-    await this.fill(this.lastNameInput, lastName);
-    await this.fill(this.postalCodeInput, postalCode);
+    await this.fill(this.ui.firstNameInput, firstName);
+    await this.fill(this.ui.lastNameInput, lastName);
+    await this.fill(this.ui.postalCodeInput, postalCode);
+  }
+
+  /**
+   * Fill in the checkout information form from customer details, e.g. built with TestDataFactory.customer()
+   * @param customer - The customer details
+   */
+  async fillCustomerInfo(customer: CustomerInfo): Promise<void> {
+    await this.fillCheckoutInfo(customer.firstName, customer.lastName, customer.postalCode);
   }
 
   /**
    * Click the Continue button to proceed to checkout overview
    */
   async clickContinue(): Promise<void> {
-    await this.click(this.continueButton);
+    await this.click(this.ui.continueButton);
   }
 
   /**
    * Click the Cancel button to return to the cart page
    */
   async clickCancel(): Promise<void> {
-    await this.click(this.cancelButton);
+    await this.click(this.ui.cancelButton);
   }
 
   /**
@@ -53,7 +61,7 @@ export class CheckoutInfoPage extends BasePage {
    * @returns The error message text, or empty string if no error
    */
   async getErrorMessage(): Promise<string> {
-    return await this.getText(this.errorMessage);
+    return await this.getText(this.ui.errorMessage);
   }
 
   /**
@@ -61,6 +69,6 @@ export class CheckoutInfoPage extends BasePage {
    * @returns True if error message is visible, false otherwise
    */
   async isErrorDisplayed(): Promise<boolean> {
-    return await this.isVisible(this.errorMessage);
+    return await this.isVisible(this.ui.errorMessage);
   }
 }
@@ -1,90 +1,107 @@
 import { Page } from '@playwright/test';
-import { BasePage } from './BasePage';
+import { AuthenticatedPage } from './AuthenticatedPage';
+import { exactText } from './components/BaseComponent';
+import { OverviewLineItem } from './components/OverviewLineItem';
+import { locators } from './locators';
+import { Money } from '../utils/money';
+import { ProductName } from '../fixtures/catalog';
 
 /**
  * CheckoutOverviewPage class handles the checkout overview page
  * Displays order summary with items, pricing, and final confirmation options
  */
-export class CheckoutOverviewPage extends BasePage {
-  // Selectors for item details
-  private itemNames = '.inventory_item_name';
-  private itemPrices = '.inventory_item_price';
-  
-  // Selectors for pricing summary
-  private subtotalLabel = '.summary_subtotal_label';
-  private taxLabel = '.summary_tax_label';
-  private totalLabel = '.summary_total_label';
-  
-  // Selectors for action buttons
-  private finishButton = '[data-test="finish"]';
-  private cancelButton = '[data-test="cancel"]';
+export class CheckoutOverviewPage extends AuthenticatedPage {
+  // Registered locators for item details, pricing summary and action buttons
+  private readonly ui = locators.checkoutOverview;
 
   constructor(page: Page) {
     super(page);
   }
 
+  /**
+   * The order items, totals and buttons
+   */
+  protected accessibilityRegion(): string[] {
+    return ['#checkout_summary_container'];
+  }
+
+  /**
+   * Get the line item of a product in the order
+   * @param productName - The exact name of the product
+   * @returns The line item component
+   */
+  getLineItem(productName: ProductName): OverviewLineItem {
+    return new OverviewLineItem(
+      this.locate(this.ui.lineItem).filter({
+        has: this.locate(this.ui.itemName).filter({ hasText: exactText(productName) }),
+      })
+    );
+  }
+
+  /**
+   * Get every line item in the order
+   * @returns The line item components in display order
+   */
+  async getLineItems(): Promise<OverviewLineItem[]> {
+    const items = await this.locate(this.ui.lineItem).all();
+    return items.map(item => new OverviewLineItem(item));
+  }
+
   /**
    * Get the names of all items in the checkout overview
    * @returns Array of item names
    */
   async getItemNames(): Promise<string[]> {
-    const items = await this.page.locator(this.itemNames).allTextContents();
+    const items = await this.locate(this.ui.itemName).allTextContents();
     return items.map(item => item.trim());
   }
 
   /**
    * Get the prices of all items in the checkout overview
-   * @returns Array of item prices as numbers
+   * @returns Array of item prices in display order
    */
-  async getItemPrices(): Promise<number[]> {
-    const priceTexts = await this.page.locator(this.itemPrices).allTextContents();
-    return priceTexts.map(price => parseFloat(price.replace('$', '').trim()));
+  async getItemPrices(): Promise<Money[]> {
+    const priceTexts = await this.locate(this.ui.itemPrice).allTextContents();
+    return priceTexts.map(price => Money.parse(price));
   }
 
   /**
    * Get the subtotal amount from the order summary
-   * @returns Subtotal as a number
+   * @returns Subtotal parsed from "Item total: $XX.XX"
    */
-  async getSubtotal(): Promise<number> {
-    const subtotalText = await this.getText(this.subtotalLabel);
-    // Extract number from "Item total: $XX.XX"
-    const match = subtotalText.match(/\$(\d+\.\d+)/);
-    return match ? parseFloat(match[1]) : 0;
+  async getSubtotal(): Promise<Money> {
+    return Money.parse(await this.getText(this.ui.subtotalLabel));
   }
 
   /**
    * Get the tax amount from the order summary
-   * @returns Tax amount as a number
+   * @returns Tax parsed from "Tax: $X.XX"
    */
-  async getTax(): Promise<number> {
-    const taxText = await this.getText(this.taxLabel);
-    // Extract number from "Tax: $X.XX"
-    const match = taxText.match(/\$(\d+\.\d+)/);
-    return match ? parseFloat(match[1]) : 0;
+  async getTax(): Promise<Money> {
+    return Money.parse(await this.getText(this.ui.taxLabel));
   }
 
   /**
    * Get the total amount from the order summary
-   * @returns Total amount as a number
+   * @returns Total parsed from "Total: $XX.XX"
    */
-  async getTotal(): Promise<number> {
-    const totalText = await this.getText(this.totalLabel);
-    // Extract number from "Total: $XX.XX"
-    const match = totalText.match(/\$(\d+\.\d+)/);
-    return match ? parseFloat(match[1]) : 0;
+  async getTotal(): Promise<Money> {
+    return Money.parse(await this.getText(this.ui.totalLabel));
   }
 
   /**
    * Click the Finish button to complete the order
+   * Completing the order empties the cart
    */
   async clickFinish(): Promise<void> {
-    await this.click(this.finishButton);
+    await this.click(this.ui.finishButton);
+    this.shadowCart.clear();
   }
 
   /**
    * Click the Cancel button to return to the products page
    */
   async clickCancel(): Promise<void> {
-    await this.click(this.cancelButton);
+    await this.click(this.ui.cancelButton);
   }
 }
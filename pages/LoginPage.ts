@@ -1,21 +1,28 @@
 import { Page } from '@playwright/test';
 import { BasePage } from './BasePage';
+import { locators } from './locators';
+import { environment, EnvironmentCredentials } from '../config/environments';
+import { recordTiming } from '../utils/performance';
 
 /**
  * LoginPage class handles login functionality and error messages
  * Extends BasePage to inherit common functionality
  */
 export class LoginPage extends BasePage {
-  // Selectors for login page elements
-  private usernameInput = '[data-test="username"]';
-  private passwordInput = '[data-test="password"]';
-  private loginButton = '[data-test="login-button"]';
-  private errorMessage = '[data-test="error"]';
+  // Registered locators for login page elements
+  private readonly ui = locators.login;
 
   constructor(page: Page) {
     super(page);
   }
 
+  /**
+   * The login form and the accepted credentials panel
+   */
+  protected accessibilityRegion(): string[] {
+    return ['.login_wrapper'];
+  }
+
   /**
    * Navigate to the login page
    */
@@ -29,9 +36,37 @@ export class LoginPage extends BasePage {
    * @param password - The password to enter
    */
   async login(username: string, password: string): Promise<void> {
-    await this.fill(this.usernameInput, username);
-    await this.fill(this.passwordInput, password);
-    await this.click(this.loginButton);
+    await this.fill(this.ui.usernameInput, username);
+    await this.fill(this.ui.passwordInput, password);
+    await this.click(this.ui.loginButton);
+  }
+
+  /**
+   * Perform login with a set of credentials, e.g. built with TestDataFactory.credentials()
+   * @param credentials - The username and password to enter
+   */
+  async loginWith(credentials: EnvironmentCredentials): Promise<void> {
+    await this.login(credentials.username, credentials.password);
+  }
+
+  /**
+   * Perform login and wait for the product list, recording the time from clicking Login until it is visible
+   * For callers that expect the login to succeed; the time is checked against the login-to-inventory budget.
+   * @param credentials - The username and password to enter
+   * @param timeout - How long to wait for the product list (default: the navigation timeout)
+   * @throws Error if the product list does not appear in time, e.g. because the login was rejected
+   */
+  async loginAndWaitForInventory(
+    credentials: EnvironmentCredentials,
+    timeout: number = environment.timeouts.navigation
+  ): Promise<void> {
+    await this.fill(this.ui.usernameInput, credentials.username);
+    await this.fill(this.ui.passwordInput, credentials.password);
+
+    const start = Date.now();
+    await this.click(this.ui.loginButton);
+    await this.locate(locators.products.inventoryList).waitFor({ timeout });
+    recordTiming('LoginPage', 'login-to-inventory', Date.now() - start);
   }
 
   /**
@@ -39,7 +74,7 @@ export class LoginPage extends BasePage {
    * @returns The error message text, or empty string if not present
    */
   async getErrorMessage(): Promise<string> {
-    return await this.getText(this.errorMessage);
+    return await this.getText(this.ui.errorMessage);
   }
 
   /**
@@ -47,6 +82,6 @@ export class LoginPage extends BasePage {
    * @returns True if error message is visible, false otherwise
    */
   async isErrorDisplayed(): Promise<boolean> {
-    return await this.isVisible(this.errorMessage);
+    return await this.isVisible(this.ui.errorMessage);
   }
 }
@@ -1,29 +1,32 @@
 import { Page } from '@playwright/test';
-import { BasePage } from './BasePage';
+import { AuthenticatedPage } from './AuthenticatedPage';
+import { locators } from './locators';
 
 /**
  * ProductDetailsPage class handles interactions with the product details page
  * Provides methods to view product information and manage cart operations from the detail view
  */
-export class ProductDetailsPage extends BasePage {
-  // Selectors for product details page elements
-  private readonly productNameSelector = '[data-test="inventory-item-name"]';
-  private readonly productDescriptionSelector = '[data-test="inventory-item-desc"]';
-  private readonly productPriceSelector = '[data-test="inventory-item-price"]';
-  private readonly addToCartButtonSelector = '[data-test="add-to-cart"]';
-  private readonly removeButtonSelector = '[data-test="remove"]';
-  private readonly backButtonSelector = '[data-test="back-to-products"]';
+export class ProductDetailsPage extends AuthenticatedPage {
+  // Registered locators for product details page elements
+  private readonly ui = locators.productDetails;
 
   constructor(page: Page) {
     super(page);
   }
 
+  /**
+   * The back button and the product details
+   */
+  protected accessibilityRegion(): string[] {
+    return ['[data-test="secondary-header"]', '#inventory_item_container'];
+  }
+
   /**
    * Get the product name displayed on the details page
    * @returns The product name as a string
    */
   async getProductName(): Promise<string> {
-    return await this.getText(this.productNameSelector);
+    return await this.getText(this.ui.productName);
   }
 
   /**
@@ -31,7 +34,7 @@ export class ProductDetailsPage extends BasePage {
    * @returns The product description as a string
    */
   async getProductDescription(): Promise<string> {
-    return await this.getText(this.productDescriptionSelector);
+    return await this.getText(this.ui.productDescription);
   }
 
   /**
@@ -39,7 +42,7 @@ export class ProductDetailsPage extends BasePage {
    * @returns The product price as a string (e.g., "$29.99")
    */
   async getProductPrice(): Promise<string> {
-    return await this.getText(this.productPriceSelector);
+    return await this.getText(this.ui.productPrice);
   }
 
   /**
@@ -47,7 +50,8 @@ export class ProductDetailsPage extends BasePage {
    * Clicks the "Add to Cart" button
    */
   async addToCart(): Promise<void> {
-    await this.click(this.addToCartButtonSelector);
+    await this.click(this.ui.addToCartButton);
+    this.shadowCart.add(await this.getProductName());
   }
 
   /**
@@ -55,7 +59,8 @@ export class ProductDetailsPage extends BasePage {
    * Clicks the "Remove" button
    */
   async removeFromCart(): Promise<void> {
-    await this.click(this.removeButtonSelector);
+    await this.click(this.ui.removeButton);
+    this.shadowCart.remove(await this.getProductName());
   }
 
   /**
@@ -63,7 +68,7 @@ export class ProductDetailsPage extends BasePage {
    * @returns True if the button is visible, false otherwise
    */
   async isAddToCartButtonVisible(): Promise<boolean> {
-    return await this.isVisible(this.addToCartButtonSelector);
+    return await this.isVisible(this.ui.addToCartButton);
   }
 
   /**
@@ -71,7 +76,7 @@ export class ProductDetailsPage extends BasePage {
    * @returns True if the button is visible, false otherwise
    */
   async isRemoveButtonVisible(): Promise<boolean> {
-    return await this.isVisible(this.removeButtonSelector);
+    return await this.isVisible(this.ui.removeButton);
   }
 
   /**
@@ -79,6 +84,6 @@ export class ProductDetailsPage extends BasePage {
    * Clicks the "Back to Products" button
    */
   async goBackToProducts(): Promise<void> {
-    await this.click(this.backButtonSelector);
+    await this.click(this.ui.backButton);
   }
 }
@@ -1,152 +1,125 @@
 import { Page } from '@playwright/test';
-import { BasePage } from './BasePage';
+import { AuthenticatedPage } from './AuthenticatedPage';
+import { exactText } from './components/BaseComponent';
+import { InventoryCard } from './components/InventoryCard';
+import { locators } from './locators';
+import { InventoryItem } from '../models/inventory-item';
+import { measureTiming } from '../utils/performance';
+import { ProductName, SortOption } from '../fixtures/catalog';
 
 /**
  * ProductsPage class handles interactions with the products listing page
  * Manages product selection, cart operations, filtering, and sorting
  */
-export class ProductsPage extends BasePage {
-  // Selectors
-  private readonly productItems = '.inventory_item';
-  private readonly cartBadge = '.shopping_cart_badge';
-  private readonly sortDropdown = '.product_sort_container';
-  private readonly cartLink = '.shopping_cart_link';
-  private readonly productName = '.inventory_item_name';
-  private readonly productPrice = '.inventory_item_price';
+export class ProductsPage extends AuthenticatedPage {
+  // Registered locators for the product list
+  private readonly ui = locators.products;
 
   constructor(page: Page) {
     super(page);
   }
 
   /**
-   * Generate dynamic selector for add to cart button by product name
-   * @param productName - The name of the product
-   * @returns The selector string for the add to cart button
+   * The sort dropdown and the product list
    */
-  private getAddToCartButtonSelector(productName: string): string {
-    const productId = this.getProductId(productName);
-    return `[data-test="add-to-cart-${productId}"]`;
+  protected accessibilityRegion(): string[] {
+    return ['[data-test="secondary-header"]', '#inventory_container'];
   }
 
   /**
-   * Generate dynamic selector for remove button by product name
-   * @param productName - The name of the product
-   * @returns The selector string for the remove button
+   * Get the card of a product on the products page
+   * @param productName - The exact name of the product
+   * @returns The product card component
    */
-  private getRemoveButtonSelector(productName: string): string {
-    const productId = this.getProductId(productName);
-    return `[data-test="remove-${productId}"]`;
+  getInventoryCard(productName: ProductName): InventoryCard {
+    return new InventoryCard(
+      this.locate(this.ui.productCard).filter({
+        has: this.locate(this.ui.productName).filter({ hasText: exactText(productName) }),
+      })
+    );
   }
 
   /**
-   * Convert product name to product ID used in data-test attributes
-   * @param productName - The full product name
-   * @returns The product ID string
+   * Get the cards of every product currently displayed on the page
+   * @returns The product card components in display order
    */
-  private getProductId(productName: string): string {
-    return productName
-      .toLowerCase()
-      .replace(/\s+/g, '-')
-      .replace(/[()]/g, '')
-      .replace(/\./g, '');
+  async getInventoryCards(): Promise<InventoryCard[]> {
+    const cards = await this.locate(this.ui.productCard).all();
+    return cards.map(card => new InventoryCard(card));
   }
 
   /**
    * Add a product to the cart by product name
    * @param productName - The name of the product to add
    */
-  async addProductToCart(productName: string): Promise<void> {
-    const selector = this.getAddToCartButtonSelector(productName);
-    await this.click(selector);
+  async addProductToCart(productName: ProductName): Promise<void> {
+    await this.getInventoryCard(productName).addToCart();
   }
 
   /**
    * Remove a product from the cart by product name
    * @param productName - The name of the product to remove
    */
-  async removeProductFromCart(productName: string): Promise<void> {
-    const selector = this.getRemoveButtonSelector(productName);
-    await this.click(selector);
-  }
-
-  /**
-   * Get the current cart badge count
-   * @returns The number of items in the cart, or 0 if badge is not visible
-   */
-  async getCartBadgeCount(): Promise<number> {
-    const isVisible = await this.isVisible(this.cartBadge);
-    if (!isVisible) {
-      return 0;
-    }
-    const text = await this.getText(this.cartBadge);
-    return parseInt(text, 10) || 0;
+  async removeProductFromCart(productName: ProductName): Promise<void> {
+    await this.getInventoryCard(productName).remove();
   }
 
   /**
    * Click on a product title to view its details
    * @param productName - The name of the product to click
    */
-  async clickProductTitle(productName: string): Promise<void> {
-    const productTitles = this.page.locator(this.productName);
-    const count = await productTitles.count();
-    
-    for (let i = 0; i < count; i++) {
-      const title = await productTitles.nth(i).textContent();
-      if (title?.trim() === productName) {
-        await productTitles.nth(i).click();
-        return;
-      }
+  async clickProductTitle(productName: ProductName): Promise<void> {
+    const card = this.getInventoryCard(productName);
+    if ((await card.locator.count()) === 0) {
+      throw new Error(`Product "${productName}" not found`);
     }
-    
-    throw new Error(`Product "${productName}" not found`);
+    await card.openDetails();
   }
 
   /**
    * Select a sort option from the dropdown
-   * @param option - The sort option value (az, za, lohi, hilo)
+   * @param option - The sort option
    */
-  async selectSortOption(option: string): Promise<void> {
-    await this.page.locator(this.sortDropdown).selectOption(option);
+  async selectSortOption(option: SortOption): Promise<void> {
+    await this.locate(this.ui.sortDropdown).selectOption(option);
   }
 
   /**
-   * Get all product names currently displayed on the page
-   * @returns Array of product names in display order
+   * Get the image source of every product currently displayed on the page
+   * @returns Array of image src attributes in display order
    */
-  async getProductNames(): Promise<string[]> {
-    const productTitles = this.page.locator(this.productName);
-    const count = await productTitles.count();
-    const names: string[] = [];
-    
-    for (let i = 0; i < count; i++) {
-      const name = await productTitles.nth(i).textContent();
-      if (name) {
-        names.push(name.trim());
-      }
+  async getProductImageSources(): Promise<string[]> {
+    const images = await this.locate(this.ui.productImage).all();
+    const sources: string[] = [];
+
+    for (const image of images) {
+      sources.push((await image.getAttribute('src')) ?? '');
     }
-    
-    return names;
+
+    return sources;
   }
 
   /**
-   * Get all product prices currently displayed on the page
-   * @returns Array of product prices as numbers in display order
+   * Get every product currently displayed on the page
+   * @returns The products in display order
    */
-  async getProductPrices(): Promise<number[]> {
-    const priceElements = this.page.locator(this.productPrice);
-    const count = await priceElements.count();
-    const prices: number[] = [];
-    
-    for (let i = 0; i < count; i++) {
-      const priceText = await priceElements.nth(i).textContent();
-      if (priceText) {
-        // Remove $ sign and convert to number
-        const price = parseFloat(priceText.replace('$', ''));
-        prices.push(price);
-      }
+  async getInventoryItems(): Promise<InventoryItem[]> {
+    const items: InventoryItem[] = [];
+
+    for (const card of await this.getInventoryCards()) {
+      items.push(await card.toInventoryItem());
     }
-    
-    return prices;
+
+    return items;
+  }
+
+  /**
+   * Get a product displayed on the page by name
+   * @param productName - The exact name of the product
+   * @returns The product as displayed
+   */
+  async getInventoryItem(productName: ProductName): Promise<InventoryItem> {
+    return await this.getInventoryCard(productName).toInventoryItem();
   }
 
   /**
@@ -154,15 +127,18 @@ export class ProductsPage extends BasePage {
    * @param productName - The name of the product to check
    * @returns True if the product is in the cart (Remove button visible), false otherwise
    */
-  async isProductAdded(productName: string): Promise<boolean> {
-    const removeSelector = this.getRemoveButtonSelector(productName);
-    return await this.isVisible(removeSelector);
+  async isProductAdded(productName: ProductName): Promise<boolean> {
+    return await this.getInventoryCard(productName).isAdded();
   }
 
   /**
    * Navigate to the cart page
+   * Waits for the cart list and records the time it took to render
    */
   async goToCart(): Promise<void> {
-    await this.click(this.cartLink);
+    await measureTiming('CartPage', 'cart-render', async () => {
+      await this.header.openCart();
+      await this.locate(locators.cart.cartList).waitFor();
+    });
   }
 }
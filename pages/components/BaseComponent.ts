@@ -0,0 +1,59 @@
+import { Locator } from '@playwright/test';
+import { LocatorDefinition, resolveLocator } from '../locators';
+import { ShadowCart, shadowCartFor } from '../../utils/shadow-cart';
+
+/**
+ * Build a pattern matching an element's whole text, e.g. to pick the row of one product by name
+ * Product names are matched literally, so names with quotes or regex characters need no escaping by the caller.
+ * @param text - The exact text
+ * @returns Pattern for Locator.filter({ hasText })
+ */
+export function exactText(text: string): RegExp {
+  return new RegExp(`^\\s*${text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\s*$`);
+}
+
+/**
+ * BaseComponent class provides common functionality for component objects
+ * A component is one repeated part of a page (a product card, a cart row) scoped to a Playwright locator,
+ * so its fields and buttons are looked up inside that element only.
+ */
+export class BaseComponent {
+  protected readonly root: Locator;
+
+  constructor(root: Locator) {
+    this.root = root;
+  }
+
+  /**
+   * The element the component is scoped to, e.g. for expect(row.locator).toBeVisible()
+   */
+  get locator(): Locator {
+    return this.root;
+  }
+
+  /**
+   * The expected cart contents of the component's page, updated by component cart actions
+   */
+  protected get shadowCart(): ShadowCart {
+    return shadowCartFor(this.root.page());
+  }
+
+  /**
+   * Get a Playwright locator for a registered locator inside the component
+   * @param definition - The registered locator (e.g. locators.cart.removeButton)
+   * @returns The Playwright locator
+   */
+  protected locate(definition: LocatorDefinition): Locator {
+    return resolveLocator(this.root, definition);
+  }
+
+  /**
+   * Get the text content of an element inside the component
+   * @param definition - The registered locator
+   * @returns The trimmed text content of the element
+   */
+  protected async getText(definition: LocatorDefinition): Promise<string> {
+    const text = await this.locate(definition).textContent();
+    return text?.trim() || '';
+  }
+}
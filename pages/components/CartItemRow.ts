@@ -0,0 +1,22 @@
+import { Locator } from '@playwright/test';
+import { LineItemComponent } from './LineItemComponent';
+import { locators } from '../locators';
+
+/**
+ * CartItemRow component represents one product row on the cart page
+ * Exposes the row's quantity, product fields and its own Remove button.
+ */
+export class CartItemRow extends LineItemComponent<typeof locators.cart> {
+  constructor(root: Locator) {
+    super(root, locators.cart);
+  }
+
+  /**
+   * Remove the product from the cart with the row's "Remove" button
+   */
+  async remove(): Promise<void> {
+    const name = await this.getName();
+    await this.locate(this.ui.removeButton).click();
+    this.shadowCart.remove(name);
+  }
+}
@@ -0,0 +1,132 @@
+import { expect, Page } from '@playwright/test';
+import { BaseComponent } from './BaseComponent';
+import { locators, resolveLocator } from '../locators';
+
+/**
+ * HeaderComponent represents the header shared by every page behind the login
+ * Covers the cart link and badge, the page title and the burger menu with its four actions.
+ * The menu slides in and out with a CSS transition; opening and closing wait for it to finish,
+ * so menu links are never clicked while they are still moving (WebKit misses those clicks).
+ */
+export class HeaderComponent extends BaseComponent {
+  // Registered locators of the header, the menu and its links
+  private readonly ui = locators.header;
+
+  constructor(page: Page) {
+    super(resolveLocator(page, locators.header.container));
+  }
+
+  /**
+   * Get the page title shown below the logo, e.g. "Products" or "Your Cart"
+   * @returns The title, or an empty string on pages without one
+   */
+  async getTitle(): Promise<string> {
+    if ((await this.locate(this.ui.title).count()) === 0) {
+      return '';
+    }
+    return await this.getText(this.ui.title);
+  }
+
+  /**
+   * Get the current cart badge count
+   * @returns The number of items in the cart, or 0 if badge is not visible
+   */
+  async getCartBadgeCount(): Promise<number> {
+    const badge = this.locate(this.ui.cartBadge);
+    if (!(await badge.isVisible())) {
+      return 0;
+    }
+    return parseInt(await this.getText(this.ui.cartBadge), 10) || 0;
+  }
+
+  /**
+   * Click the cart link to open the cart page
+   */
+  async openCart(): Promise<void> {
+    await this.locate(this.ui.cartLink).click();
+  }
+
+  /**
+   * Check if the burger menu is open
+   * @returns True if the menu is shown, false otherwise
+   */
+  async isMenuOpen(): Promise<boolean> {
+    return (await this.locate(this.ui.menu).getAttribute('aria-hidden')) === 'false';
+  }
+
+  /**
+   * Open the burger menu and wait until it has finished sliding in
+   * Does nothing if the menu is already open
+   */
+  async openMenu(): Promise<void> {
+    if (await this.isMenuOpen()) {
+      return;
+    }
+    await this.locate(this.ui.menuButton).click();
+    await expect(this.locate(this.ui.menu)).toHaveAttribute('aria-hidden', 'false');
+    await this.waitForMenuAnimation();
+  }
+
+  /**
+   * Close the burger menu and wait until it has finished sliding out
+   * Does nothing if the menu is already closed
+   */
+  async closeMenu(): Promise<void> {
+    if (!(await this.isMenuOpen())) {
+      return;
+    }
+    await this.locate(this.ui.closeMenuButton).click();
+    await expect(this.locate(this.ui.menu)).toHaveAttribute('aria-hidden', 'true');
+    await this.waitForMenuAnimation();
+  }
+
+  /**
+   * Go to the products page with the menu's "All Items" link
+   */
+  async goToAllItems(): Promise<void> {
+    await this.openMenu();
+    await this.locate(this.ui.allItemsLink).click();
+  }
+
+  /**
+   * Follow the menu's "About" link
+   * The link leaves the application for the Sauce Labs website.
+   */
+  async goToAbout(): Promise<void> {
+    await this.openMenu();
+    await this.locate(this.ui.aboutLink).click();
+  }
+
+  /**
+   * Log out with the menu's "Logout" link
+   * The cart is kept with the user, so the shadow cart is left as it is.
+   */
+  async logout(): Promise<void> {
+    await this.openMenu();
+    await this.locate(this.ui.logoutLink).click();
+  }
+
+  /**
+   * Empty the cart with the menu's "Reset App State" link, then close the menu
+   * SauceDemo only empties the stored cart and the badge; product buttons already on the page
+   * keep showing "Remove" until the page is reloaded.
+   */
+  async resetAppState(): Promise<void> {
+    await this.openMenu();
+    await this.locate(this.ui.resetAppStateLink).click();
+    this.shadowCart.clear();
+    await this.closeMenu();
+  }
+
+  /**
+   * Wait for the transitions of the menu and its contents to finish
+   * A transition cancelled by a re-render counts as finished.
+   */
+  private async waitForMenuAnimation(): Promise<void> {
+    await this.locate(this.ui.menu).evaluate(async menu => {
+      await Promise.all(
+        menu.getAnimations({ subtree: true }).map(animation => animation.finished.catch(() => undefined))
+      );
+    });
+  }
+}
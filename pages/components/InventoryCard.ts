@@ -0,0 +1,121 @@
+import { Locator } from '@playwright/test';
+import { BaseComponent } from './BaseComponent';
+import { locators } from '../locators';
+import { CartButtonState, InventoryItem } from '../../models/inventory-item';
+import { Money } from '../../utils/money';
+
+/**
+ * InventoryCard component represents one product card on the products page
+ * Exposes the product's fields and its own Add to cart / Remove button. Product cards have no quantity:
+ * SauceDemo adds a product to the cart at most once.
+ */
+export class InventoryCard extends BaseComponent {
+  // Registered locators of the card and the elements inside it
+  private readonly ui = locators.products;
+
+  constructor(root: Locator) {
+    super(root);
+  }
+
+  /**
+   * Get the SauceDemo item id of the product, read from its title link
+   * @returns The id used in /inventory-item.html?id=
+   * @throws Error if the title link carries no item id
+   */
+  async getId(): Promise<number> {
+    const linkId = (await this.locate(this.ui.productTitleLink).getAttribute('id')) ?? '';
+    const idMatch = linkId.match(/^item_(\d+)_title_link$/);
+    if (!idMatch) {
+      throw new Error(`Product card has no item id (title link id "${linkId}")`);
+    }
+    return parseInt(idMatch[1], 10);
+  }
+
+  /**
+   * Get the product name
+   * @returns The product name as displayed
+   */
+  async getName(): Promise<string> {
+    return await this.getText(this.ui.productName);
+  }
+
+  /**
+   * Get the product description
+   * @returns The product description as displayed
+   */
+  async getDescription(): Promise<string> {
+    return await this.getText(this.ui.productDescription);
+  }
+
+  /**
+   * Get the product price
+   * @returns The price parsed from "$XX.XX"
+   */
+  async getPrice(): Promise<Money> {
+    return Money.parse(await this.getText(this.ui.productPrice));
+  }
+
+  /**
+   * Get the src attribute of the product image
+   * @returns The image source, or an empty string if the image has none
+   */
+  async getImageSource(): Promise<string> {
+    return (await this.locate(this.ui.productImage).getAttribute('src')) ?? '';
+  }
+
+  /**
+   * Get the state of the card's cart button
+   * @returns 'remove' if the product is in the cart, 'add' otherwise
+   */
+  async getButtonState(): Promise<CartButtonState> {
+    return (await this.locate(this.ui.removeButton).count()) > 0 ? 'remove' : 'add';
+  }
+
+  /**
+   * Check if the product is currently added to the cart
+   * @returns True if the card's Remove button is visible, false otherwise
+   */
+  async isAdded(): Promise<boolean> {
+    return await this.locate(this.ui.removeButton).isVisible();
+  }
+
+  /**
+   * Add the product to the cart with the card's "Add to cart" button
+   */
+  async addToCart(): Promise<void> {
+    const name = await this.getName();
+    await this.locate(this.ui.addToCartButton).click();
+    this.shadowCart.add(name);
+  }
+
+  /**
+   * Remove the product from the cart with the card's "Remove" button
+   */
+  async remove(): Promise<void> {
+    const name = await this.getName();
+    await this.locate(this.ui.removeButton).click();
+    this.shadowCart.remove(name);
+  }
+
+  /**
+   * Click the product title to open its details page
+   */
+  async openDetails(): Promise<void> {
+    await this.locate(this.ui.productName).click();
+  }
+
+  /**
+   * Read every field of the card
+   * @returns The product as displayed in the card
+   */
+  async toInventoryItem(): Promise<InventoryItem> {
+    return {
+      id: await this.getId(),
+      name: await this.getName(),
+      description: await this.getDescription(),
+      price: await this.getPrice(),
+      imageSrc: await this.getImageSource(),
+      buttonState: await this.getButtonState(),
+    };
+  }
+}
@@ -0,0 +1,57 @@
+import { Locator } from '@playwright/test';
+import { BaseComponent } from './BaseComponent';
+import { LocatorDefinition } from '../locators';
+import { Money } from '../../utils/money';
+
+/** Registered locators of the fields of a product line, as in locators.cart and locators.checkoutOverview */
+export type LineItemLocators = Record<'itemName' | 'itemQuantity' | 'itemDescription' | 'itemPrice', LocatorDefinition>;
+
+/**
+ * LineItemComponent class is the base of the product lines listed with a quantity (cart rows, overview line items)
+ * Both pages show the same fields; each subclass passes the locator group of its page and adds its own buttons.
+ */
+export class LineItemComponent<L extends LineItemLocators = LineItemLocators> extends BaseComponent {
+  // Registered locators of the line and the elements inside it
+  protected readonly ui: L;
+
+  /**
+   * @param root - The element of the line
+   * @param ui - The locator group of the page the line is on (e.g. locators.cart)
+   */
+  constructor(root: Locator, ui: L) {
+    super(root);
+    this.ui = ui;
+  }
+
+  /**
+   * Get the product name
+   * @returns The product name as displayed
+   */
+  async getName(): Promise<string> {
+    return await this.getText(this.ui.itemName);
+  }
+
+  /**
+   * Get the quantity shown in the QTY column
+   * @returns The quantity, or 0 if it is not a number
+   */
+  async getQuantity(): Promise<number> {
+    return parseInt(await this.getText(this.ui.itemQuantity), 10) || 0;
+  }
+
+  /**
+   * Get the product description
+   * @returns The product description as displayed
+   */
+  async getDescription(): Promise<string> {
+    return await this.getText(this.ui.itemDescription);
+  }
+
+  /**
+   * Get the product price
+   * @returns The price parsed from "$XX.XX"
+   */
+  async getPrice(): Promise<Money> {
+    return Money.parse(await this.getText(this.ui.itemPrice));
+  }
+}
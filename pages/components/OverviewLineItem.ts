@@ -0,0 +1,13 @@
+import { Locator } from '@playwright/test';
+import { LineItemComponent } from './LineItemComponent';
+import { locators } from '../locators';
+
+/**
+ * OverviewLineItem component represents one ordered product on the checkout overview page
+ * Exposes the line's quantity and product fields. The overview has no cart buttons.
+ */
+export class OverviewLineItem extends LineItemComponent<typeof locators.checkoutOverview> {
+  constructor(root: Locator) {
+    super(root, locators.checkoutOverview);
+  }
+}
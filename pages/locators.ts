@@ -0,0 +1,132 @@
+import { Locator, Page } from '@playwright/test';
+
+/**
+ * Locator registry
+ * Every selector the page objects, components and specs use, named and grouped by page. Page objects
+ * and components read their selectors from here instead of keeping private strings, and
+ * `npm run locators:check` visits every page to report registered locators that no longer resolve or
+ * resolve ambiguously.
+ */
+
+/** A named locator */
+export interface LocatorDefinition {
+  /** Primary selector, in Playwright selector syntax (prefer data-test attributes) */
+  selector: string;
+  /** Used when the primary selector matches nothing, e.g. the element id behind a data-test attribute */
+  fallback?: string;
+  /** Matches a list of elements (e.g. every product card), so more than one match is expected */
+  multiple?: boolean;
+  /** Name of the locator on the same page this one is resolved inside (e.g. a button inside a product card) */
+  within?: string;
+}
+
+/** Locators of one page, by name */
+export type PageLocators = Record<string, LocatorDefinition>;
+
+/** Registered locators, by page */
+export const locators = {
+  /** Header shared by every page behind the login */
+  header: {
+    container: { selector: '[data-test="header-container"]', fallback: '#header_container' },
+    title: { selector: '[data-test="title"]', fallback: '.header_secondary_container .title' },
+    cartLink: { selector: '[data-test="shopping-cart-link"]', fallback: '.shopping_cart_link' },
+    cartBadge: { selector: '[data-test="shopping-cart-badge"]', fallback: '.shopping_cart_badge' },
+    menuButton: { selector: '#react-burger-menu-btn', fallback: 'button:has-text("Open Menu")' },
+    menu: { selector: '.bm-menu-wrap' },
+    closeMenuButton: { selector: '#react-burger-cross-btn', fallback: 'button:has-text("Close Menu")' },
+    allItemsLink: { selector: '[data-test="inventory-sidebar-link"]', fallback: '#inventory_sidebar_link' },
+    aboutLink: { selector: '[data-test="about-sidebar-link"]', fallback: '#about_sidebar_link' },
+    logoutLink: { selector: '[data-test="logout-sidebar-link"]', fallback: '#logout_sidebar_link' },
+    resetAppStateLink: { selector: '[data-test="reset-sidebar-link"]', fallback: '#reset_sidebar_link' },
+  },
+
+  /** Footer shared by every page behind the login */
+  footer: {
+    copyright: { selector: '[data-test="footer-copy"]', fallback: '.footer_copy' },
+  },
+
+  login: {
+    usernameInput: { selector: '[data-test="username"]', fallback: '#user-name' },
+    passwordInput: { selector: '[data-test="password"]', fallback: '#password' },
+    loginButton: { selector: '[data-test="login-button"]', fallback: '#login-button' },
+    errorMessage: { selector: '[data-test="error"]', fallback: '.error-message-container h3' },
+  },
+
+  products: {
+    inventoryList: { selector: '[data-test="inventory-list"]', fallback: '.inventory_list' },
+    sortDropdown: { selector: '[data-test="product-sort-container"]', fallback: '.product_sort_container' },
+    productCard: { selector: '.inventory_item', multiple: true },
+    productName: { selector: '.inventory_item_name', within: 'productCard' },
+    productDescription: { selector: '.inventory_item_desc', within: 'productCard' },
+    productPrice: { selector: '.inventory_item_price', within: 'productCard' },
+    productImage: { selector: 'img.inventory_item_img', within: 'productCard' },
+    productTitleLink: { selector: 'a[id$="_title_link"]', within: 'productCard' },
+    addToCartButton: { selector: 'button[data-test^="add-to-cart"]', within: 'productCard' },
+    removeButton: { selector: 'button[data-test^="remove"]', within: 'productCard' },
+  },
+
+  productDetails: {
+    productName: { selector: '[data-test="inventory-item-name"]', fallback: '.inventory_details_name' },
+    productDescription: { selector: '[data-test="inventory-item-desc"]', fallback: '.inventory_details_desc' },
+    productPrice: { selector: '[data-test="inventory-item-price"]', fallback: '.inventory_details_price' },
+    addToCartButton: { selector: '[data-test="add-to-cart"]', fallback: '#add-to-cart' },
+    removeButton: { selector: '[data-test="remove"]', fallback: '#remove' },
+    backButton: { selector: '[data-test="back-to-products"]', fallback: '#back-to-products' },
+  },
+
+  cart: {
+    cartList: { selector: '[data-test="cart-list"]', fallback: '.cart_list' },
+    cartItem: { selector: '.cart_item', multiple: true },
+    itemName: { selector: '[data-test="inventory-item-name"]', fallback: '.inventory_item_name', within: 'cartItem' },
+    itemQuantity: { selector: '[data-test="item-quantity"]', fallback: '.cart_quantity', within: 'cartItem' },
+    itemDescription: { selector: '[data-test="inventory-item-desc"]', fallback: '.inventory_item_desc', within: 'cartItem' },
+    itemPrice: { selector: '[data-test="inventory-item-price"]', fallback: '.inventory_item_price', within: 'cartItem' },
+    removeButton: { selector: 'button[data-test^="remove"]', within: 'cartItem' },
+    continueShoppingButton: { selector: '[data-test="continue-shopping"]', fallback: '#continue-shopping' },
+    checkoutButton: { selector: '[data-test="checkout"]', fallback: '#checkout' },
+  },
+
+  checkoutInfo: {
+    firstNameInput: { selector: '[data-test="firstName"]', fallback: '#first-name' },
+    lastNameInput: { selector: '[data-test="lastName"]', fallback: '#last-name' },
+    postalCodeInput: { selector: '[data-test="postalCode"]', fallback: '#postal-code' },
+    continueButton: { selector: '[data-test="continue"]', fallback: '#continue' },
+    cancelButton: { selector: '[data-test="cancel"]', fallback: '#cancel' },
+    errorMessage: { selector: '[data-test="error"]', fallback: '.error-message-container h3' },
+  },
+
+  checkoutOverview: {
+    lineItem: { selector: '.cart_item', multiple: true },
+    itemName: { selector: '[data-test="inventory-item-name"]', fallback: '.inventory_item_name', within: 'lineItem' },
+    itemQuantity: { selector: '[data-test="item-quantity"]', fallback: '.cart_quantity', within: 'lineItem' },
+    itemDescription: { selector: '[data-test="inventory-item-desc"]', fallback: '.inventory_item_desc', within: 'lineItem' },
+    itemPrice: { selector: '[data-test="inventory-item-price"]', fallback: '.inventory_item_price', within: 'lineItem' },
+    subtotalLabel: { selector: '[data-test="subtotal-label"]', fallback: '.summary_subtotal_label' },
+    taxLabel: { selector: '[data-test="tax-label"]', fallback: '.summary_tax_label' },
+    totalLabel: { selector: '[data-test="total-label"]', fallback: '.summary_total_label' },
+    finishButton: { selector: '[data-test="finish"]', fallback: '#finish' },
+    cancelButton: { selector: '[data-test="cancel"]', fallback: '#cancel' },
+  },
+
+  checkoutComplete: {
+    confirmationHeader: { selector: '[data-test="complete-header"]', fallback: '.complete-header' },
+    confirmationMessage: { selector: '[data-test="complete-text"]', fallback: '.complete-text' },
+    backHomeButton: { selector: '[data-test="back-to-products"]', fallback: '#back-to-products' },
+  },
+} satisfies Record<string, PageLocators>;
+
+/** Pages with registered locators */
+export type LocatorPage = keyof typeof locators;
+
+/**
+ * Resolve a registered locator
+ * With a fallback the result matches whatever either selector matches, so a primary selector that
+ * stops matching falls back without the caller noticing; the health check reports it.
+ * @param root - The page, or the element to resolve inside (see LocatorDefinition.within)
+ * @param definition - The registered locator
+ * @returns The Playwright locator
+ */
+export function resolveLocator(root: Page | Locator, definition: LocatorDefinition): Locator {
+  const primary = root.locator(definition.selector);
+  return definition.fallback ? primary.or(root.locator(definition.fallback)) : primary;
+}
@@ -1,4 +1,17 @@
 import { defineConfig, devices } from '@playwright/test';
+import { projectDevices } from './config/browsers';
+import { environment, LOCAL_SERVER_PORT } from './config/environments';
+import { harServiceWorkers } from './utils/har';
+import { parseSeedList } from './utils/random';
+import { runDataSeed } from './utils/test-data-factory';
+
+// Workers and retries load this file again; passing the seed on makes them generate the same data
+process.env.DATA_SEED = String(runDataSeed);
+
+// EX-01 titles carry the explorer seed, so a "random" seed is picked once here for the workers to list the same tests
+if (process.env.EXPLORER_SEEDS) {
+  process.env.EXPLORER_SEEDS = parseSeedList(process.env.EXPLORER_SEEDS).join(',');
+}
 
 /**
  * Playwright configuration for SauceDemo automation
@@ -9,7 +22,17 @@ import { defineConfig, devices } from '@playwright/test';
  * - Video Recording: Records video on test failure for debugging
  * - Error Handling: Descriptive error messages with stack traces
  * - Test Isolation: Each test runs in a fresh browser context
+ * - Auth Setup: The 'setup' project logs in once per persona so tests can skip the login form
+ * - Environment Profiles: Base URL, credentials and timeouts come from the profile selected by TEST_ENV
  * - Timeout Configuration: Appropriate timeouts for actions and assertions
+ * - Local Server: The local profile starts the bundled SauceDemo stand-in server
+ * - Known Bugs: Tests for bugs registered in fixtures/known-bugs.json report as known failures
+ * - Traceability: Results per TC ID are written back to the assessment workbook format
+ * - Performance Budgets: Page object timings are checked against config/performance-budgets.ts and trended across runs
+ * - HAR Record/Replay: HAR_MODE=record captures each spec's traffic, HAR_MODE=replay serves it back offline
+ * - Seeded Test Data: Generated test data repeats for the seed in DATA_SEED, which is random when unset
+ * - Visual Baselines: Screenshot baselines are stored per platform, environment and browser project
+ * - Unit Checks: The 'unit' project runs tests/unit without a browser
  * 
  * See https://playwright.dev/docs/test-configuration
  */
@@ -37,13 +60,21 @@ export default defineConfig({
     ['list'],
     ['json', { 
       outputFile: 'test-results/results.json' 
+    }],
+    ['./reporters/known-bug-reporter.ts'],
+    ['./reporters/traceability-reporter.ts', {
+      outputFile: 'test-results/traceability.xlsx'
+    }],
+    ['./reporters/performance-reporter.ts', {
+      /* Kept between CI runs as a cache or artifact, so timings can be trended across runs */
+      historyFile: process.env.PERFORMANCE_HISTORY_FILE || 'playwright/performance-history.jsonl'
     }]
   ],
 
   /* Shared settings for all the projects below */
   use: {
-    /* Base URL for the application under test */
-    baseURL: 'https://www.saucedemo.com',
+    /* Base URL for the application under test, from the active environment profile */
+    baseURL: environment.baseURL,
 
     /* Collect trace on first retry for debugging */
     trace: 'on-first-retry',
@@ -54,36 +85,79 @@ export default defineConfig({
     /* Record video only on failure to diagnose issues */
     video: 'retain-on-failure',
 
-    /* Maximum time each action can take (10 seconds) */
-    actionTimeout: 10000,
+    /* Maximum time each action can take (10 seconds in prod) */
+    actionTimeout: environment.timeouts.action,
 
-    /* Maximum time for navigation (30 seconds) */
-    navigationTimeout: 30000,
+    /* Maximum time for navigation (30 seconds in prod) */
+    navigationTimeout: environment.timeouts.navigation,
+
+    /* Service workers would answer requests before HAR routing sees them */
+    serviceWorkers: harServiceWorkers,
   },
 
-  /* Global timeout for each test (2 minutes) */
-  timeout: 120000,
+  /* Merge the traffic captured by HAR_MODE=record into one archive per spec */
+  globalTeardown: './utils/har-teardown.ts',
+
+  /* Global timeout for each test (2 minutes in prod) */
+  timeout: environment.timeouts.test,
 
-  /* Expect timeout for assertions (5 seconds) */
+  /* Expect timeout for assertions (5 seconds in prod) */
   expect: {
-    timeout: 5000,
+    timeout: environment.timeouts.expect,
+
+    /* Visual checks compare against baselines in tests/__screenshots__/<platform>/<environment>/<project> */
+    toHaveScreenshot: {
+      pathTemplate: `{testDir}/__screenshots__/{platform}/${environment.name}/{projectName}/{arg}{ext}`,
+      animations: 'disabled',
+      caret: 'hide',
+      maxDiffPixelRatio: 0.01,
+    },
   },
 
+  /* Start the bundled SauceDemo stand-in server for the local profile */
+  webServer: environment.startLocalServer
+    ? {
+        command: `npx tsx server/saucedemo-server.ts --port ${LOCAL_SERVER_PORT}`,
+        url: environment.baseURL,
+        reuseExistingServer: !process.env.CI,
+        timeout: 30000,
+      }
+    : undefined,
+
   /* Configure projects for major browsers */
   projects: [
+    /* Browserless unit checks of the pure helpers in utils/ */
+    {
+      name: 'unit',
+      testMatch: /unit\/.*\.spec\.ts/,
+    },
+
+    /* Log in once per persona and save the session for the authenticatedPage fixture */
+    {
+      name: 'setup',
+      testMatch: /.*\.setup\.ts/,
+      use: { ...devices[projectDevices.chromium] },
+    },
+
     {
       name: 'chromium',
-      use: { ...devices['Desktop Chrome'] },
+      testIgnore: /unit\//,
+      use: { ...devices[projectDevices.chromium] },
+      dependencies: ['setup'],
     },
 
     {
       name: 'firefox',
-      use: { ...devices['Desktop Firefox'] },
+      testIgnore: /unit\//,
+      use: { ...devices[projectDevices.firefox] },
+      dependencies: ['setup'],
     },
 
     {
       name: 'webkit',
-      use: { ...devices['Desktop Safari'] },
+      testIgnore: /unit\//,
+      use: { ...devices[projectDevices.webkit] },
+      dependencies: ['setup'],
     },
   ],
 });
@@ -0,0 +1,78 @@
+import type { FullResult, Reporter, TestCase, TestResult } from '@playwright/test/reporter';
+import { getKnownBug, KNOWN_BUG_ANNOTATION } from '../utils/known-bugs';
+
+/** A test linked to a registered bug, as it ended in one project */
+interface KnownBugOutcome {
+  bugId: string;
+  test: string;
+  project: string;
+}
+
+/**
+ * Known-bug reporter
+ * Summarizes tests linked to fixtures/known-bugs.json at the end of the run:
+ * - Known failures: open bugs that still reproduce (reported by Playwright as expected failures)
+ * - Bugs that appear fixed: open bugs whose test passed, printed as a loud banner so the registry gets updated
+ */
+export default class KnownBugReporter implements Reporter {
+  private readonly knownFailures: KnownBugOutcome[] = [];
+  private readonly appearFixed: KnownBugOutcome[] = [];
+
+  onTestEnd(test: TestCase, result: TestResult): void {
+    // Unexpected results are retried, so only count an attempt that will not be retried
+    const isFinalAttempt = result.status === test.expectedStatus || result.retry >= test.retries;
+    if (!isFinalAttempt || result.status === 'skipped' || result.status === 'interrupted') {
+      return;
+    }
+
+    // Tests that failed without being marked as known failures (e.g. a mislinked bug) are regular failures
+    if (result.status !== 'passed' && test.expectedStatus !== 'failed') {
+      return;
+    }
+
+    for (const annotation of test.annotations) {
+      if (annotation.type !== KNOWN_BUG_ANNOTATION || !annotation.description) {
+        continue;
+      }
+      if (getKnownBug(annotation.description).status !== 'open') {
+        continue;
+      }
+
+      const outcome: KnownBugOutcome = {
+        bugId: annotation.description,
+        test: test.title,
+        project: test.parent.project()?.name || 'default',
+      };
+      if (result.status === 'passed') {
+        this.appearFixed.push(outcome);
+      } else {
+        this.knownFailures.push(outcome);
+      }
+    }
+  }
+
+  onEnd(_result: FullResult): void {
+    if (this.knownFailures.length > 0) {
+      console.log(`\n${this.knownFailures.length} known failure(s) from fixtures/known-bugs.json:`);
+      for (const outcome of this.knownFailures) {
+        console.log(`  ${outcome.bugId} [${outcome.project}] ${outcome.test}`);
+      }
+    }
+
+    if (this.appearFixed.length > 0) {
+      const banner = '!'.repeat(72);
+      console.log(`\n${banner}`);
+      console.log('BUG APPEARS FIXED: tests for open bugs passed');
+      for (const outcome of this.appearFixed) {
+        console.log(`  ${outcome.bugId} (${getKnownBug(outcome.bugId).title}) [${outcome.project}] ${outcome.test}`);
+      }
+      console.log('Verify the fix, then set the bug\'s status to "fixed" in fixtures/known-bugs.json');
+      console.log('and run `npm run docs:known-issues` to update the README.');
+      console.log(`${banner}\n`);
+    }
+  }
+
+  printsToStdio(): boolean {
+    return false;
+  }
+}
@@ -0,0 +1,183 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'fs';
+import path from 'path';
+import type { Reporter, TestCase, TestResult } from '@playwright/test/reporter';
+import { environment } from '../config/environments';
+import { TimingMetric } from '../config/performance-budgets';
+import { describeBreach, isOverBudget, PERFORMANCE_ATTACHMENT, Timing } from '../utils/performance';
+
+/** A timing recorded in one test and project */
+interface TimingSample extends Timing {
+  project: string;
+  test: string;
+}
+
+/** Timings of one page and metric in one project, summarized over a run */
+interface TimingSummary {
+  project: string;
+  page: string;
+  metric: TimingMetric;
+  count: number;
+  medianMs: number;
+  maxMs: number;
+  budgetMs?: number;
+}
+
+/** One line of the history file */
+interface HistoryRun {
+  runAt: string;
+  environment: string;
+  timings: TimingSummary[];
+}
+
+interface PerformanceReporterOptions {
+  /** JSON Lines file the summary of each run is appended to and compared with (default: playwright/performance-history.jsonl) */
+  historyFile?: string;
+  /** Number of previous runs of the same environment a run is compared with (default: 5) */
+  compareRuns?: number;
+  /** Median slowdown over the previous runs that is reported as a regression (default: 1.2, i.e. 20% slower) */
+  regressionFactor?: number;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? Math.round((sorted[middle - 1] + sorted[middle]) / 2) : sorted[middle];
+}
+
+function summaryKey(summary: Pick<TimingSummary, 'project' | 'page' | 'metric'>): string {
+  return `${summary.project}|${summary.page}|${summary.metric}`;
+}
+
+/**
+ * Performance reporter
+ * Reports the timings page objects recorded (see utils/performance.ts) separately from test results:
+ * - Budget breaches: timings over their budget in config/performance-budgets.ts, listed per test
+ * - Regressions: page and metric medians notably slower than in the previous runs of the same environment
+ * Each run's medians are appended to a history file so timings can be trended across runs.
+ * Breaches and regressions never change a test's status.
+ */
+export default class PerformanceReporter implements Reporter {
+  private readonly historyFile: string;
+  private readonly compareRuns: number;
+  private readonly regressionFactor: number;
+  private readonly samples: TimingSample[] = [];
+
+  constructor(options: PerformanceReporterOptions = {}) {
+    this.historyFile = path.resolve(options.historyFile ?? 'playwright/performance-history.jsonl');
+    this.compareRuns = options.compareRuns ?? 5;
+    this.regressionFactor = options.regressionFactor ?? 1.2;
+  }
+
+  onTestEnd(test: TestCase, result: TestResult): void {
+    const attachment = result.attachments.find(a => a.name === PERFORMANCE_ATTACHMENT && a.body);
+    if (!attachment?.body) {
+      return;
+    }
+
+    const project = test.parent.project()?.name || 'default';
+    for (const timing of JSON.parse(attachment.body.toString('utf-8')) as Timing[]) {
+      this.samples.push({ ...timing, project, test: test.title });
+    }
+  }
+
+  onEnd(): void {
+    // Nothing was timed, e.g. when listing tests with --list
+    if (this.samples.length === 0) {
+      return;
+    }
+
+    this.printBreaches();
+
+    const summaries = this.summarize();
+    this.printRegressions(summaries, this.readPreviousRuns());
+
+    const run: HistoryRun = { runAt: new Date().toISOString(), environment: environment.name, timings: summaries };
+    mkdirSync(path.dirname(this.historyFile), { recursive: true });
+    appendFileSync(this.historyFile, `${JSON.stringify(run)}\n`);
+    console.log(`Performance timings appended to ${path.relative(process.cwd(), this.historyFile)}`);
+  }
+
+  printsToStdio(): boolean {
+    return false;
+  }
+
+  private printBreaches(): void {
+    const breaches = this.samples.filter(isOverBudget);
+    if (breaches.length === 0) {
+      return;
+    }
+
+    console.log(`\n${breaches.length} performance budget breach(es) (test results are not affected):`);
+    for (const breach of breaches) {
+      console.log(`  [${breach.project}] ${describeBreach(breach)} - ${breach.test}`);
+    }
+  }
+
+  private summarize(): TimingSummary[] {
+    const groups = new Map<string, TimingSample[]>();
+    for (const sample of this.samples) {
+      const key = summaryKey(sample);
+      groups.set(key, [...(groups.get(key) ?? []), sample]);
+    }
+
+    return [...groups.values()].map(samples => {
+      const durations = samples.map(sample => sample.durationMs);
+      return {
+        project: samples[0].project,
+        page: samples[0].page,
+        metric: samples[0].metric,
+        count: samples.length,
+        medianMs: median(durations),
+        maxMs: Math.max(...durations),
+        budgetMs: samples[0].budgetMs,
+      };
+    });
+  }
+
+  private readPreviousRuns(): HistoryRun[] {
+    if (!existsSync(this.historyFile)) {
+      return [];
+    }
+
+    return readFileSync(this.historyFile, 'utf-8')
+      .split('\n')
+      .filter(Boolean)
+      .map(line => JSON.parse(line) as HistoryRun)
+      .filter(run => run.environment === environment.name)
+      .slice(-this.compareRuns);
+  }
+
+  private printRegressions(summaries: TimingSummary[], previousRuns: HistoryRun[]): void {
+    // A CI job that does not restore the history file starts every run from scratch
+    if (previousRuns.length === 0) {
+      console.log(
+        `\nNo previous ${environment.name} runs in ${path.relative(process.cwd(), this.historyFile)} to compare timings with`
+      );
+      return;
+    }
+
+    const regressions: string[] = [];
+    for (const summary of summaries) {
+      const previousMedians = previousRuns
+        .flatMap(run => run.timings)
+        .filter(previous => summaryKey(previous) === summaryKey(summary))
+        .map(previous => previous.medianMs);
+      if (previousMedians.length === 0) {
+        continue;
+      }
+
+      const baseline = median(previousMedians);
+      if (summary.medianMs > baseline * this.regressionFactor) {
+        regressions.push(
+          `  [${summary.project}] ${summary.page} ${summary.metric}: median ${summary.medianMs}ms, ` +
+            `was ${baseline}ms over the last ${previousMedians.length} run(s)`
+        );
+      }
+    }
+
+    if (regressions.length > 0) {
+      console.log(`\n${regressions.length} timing(s) slower than in previous runs (test results are not affected):`);
+      console.log(regressions.join('\n'));
+    }
+  }
+}
@@ -0,0 +1,288 @@
+import ExcelJS from 'exceljs';
+import { existsSync, mkdirSync, writeFileSync } from 'fs';
+import path from 'path';
+import type { FullConfig, Reporter, Suite, TestCase } from '@playwright/test/reporter';
+import { findTestId } from '../utils/test-id';
+import { readTestPlan, TEST_PLAN_PATH, TestPlanCase } from '../utils/test-plan';
+
+/** Execution status of a test case, in the wording of the assessment workbook */
+type ExecutionStatus = 'Pass' | 'Fail' | 'Known Failure' | 'Flaky' | 'Skipped' | 'Not Run';
+
+/** Statuses from worst to best; a test case takes the worst status of its tests */
+const STATUS_ORDER: ExecutionStatus[] = ['Fail', 'Flaky', 'Known Failure', 'Pass', 'Skipped', 'Not Run'];
+
+/** Results of one test case in one browser project */
+interface ExecutionRow {
+  testId: string;
+  browser: string;
+  status: ExecutionStatus;
+  durationMs: number;
+  tests: string[];
+  /** Screenshots, videos and traces of failed attempts, relative to the output directory */
+  artifacts: string[];
+}
+
+interface TraceabilityReporterOptions {
+  /** Workbook to write; the CSV is written next to it (default: test-results/traceability.xlsx) */
+  outputFile?: string;
+  /** Workbook holding the manual test plan (default: QA Engineer Assessment.xlsx) */
+  testPlan?: string;
+}
+
+/**
+ * Traceability reporter
+ * Maps test results back to the test case IDs of the assessment workbook and writes an execution sheet
+ * stakeholders can read without Playwright:
+ * - Summary sheet: one row per test case with the plan columns, the status per browser and the overall status
+ * - Execution sheet (and CSV): one row per test case and browser with run date, status, duration and
+ *   links to failure artifacts
+ * Test case IDs come from the title prefix (TC-01: ...) or a 'test-id' annotation. Tests sharing an ID
+ * (such as the TC-27 rows of the checkout validation matrix or a persona matrix) are aggregated into one row.
+ */
+export default class TraceabilityReporter implements Reporter {
+  private readonly outputFile: string;
+  private readonly testPlanPath: string;
+  private rootSuite?: Suite;
+  private runDate = new Date();
+
+  constructor(options: TraceabilityReporterOptions = {}) {
+    this.outputFile = path.resolve(options.outputFile ?? 'test-results/traceability.xlsx');
+    this.testPlanPath = path.resolve(options.testPlan ?? TEST_PLAN_PATH);
+  }
+
+  onBegin(_config: FullConfig, suite: Suite): void {
+    this.rootSuite = suite;
+    this.runDate = new Date();
+  }
+
+  async onEnd(): Promise<void> {
+    // Nothing ran, e.g. when listing tests with --list
+    const tests = this.rootSuite?.allTests() ?? [];
+    if (!tests.some(test => test.results.length > 0)) {
+      return;
+    }
+
+    const rows = this.collectRows(tests);
+    const plan = await this.loadTestPlan();
+    const testIds = orderTestIds(plan, rows);
+    const browsers = [...new Set(rows.map(row => row.browser))].sort();
+
+    mkdirSync(path.dirname(this.outputFile), { recursive: true });
+    await this.writeWorkbook(testIds, plan, rows, browsers);
+    this.writeCsv(testIds, plan, rows);
+
+    console.log(`Traceability sheet written to ${path.relative(process.cwd(), this.outputFile)}`);
+  }
+
+  printsToStdio(): boolean {
+    return false;
+  }
+
+  /**
+   * Aggregate the final outcome of each test into one row per test case and browser project
+   */
+  private collectRows(tests: TestCase[]): ExecutionRow[] {
+    const rows = new Map<string, ExecutionRow>();
+    const outputDir = path.dirname(this.outputFile);
+
+    for (const test of tests) {
+      const testId = findTestId(test.title, test.annotations);
+      if (!testId) {
+        continue;
+      }
+
+      const browser = test.parent.project()?.name || 'default';
+      const key = `${testId}|${browser}`;
+      const row = rows.get(key) ?? { testId, browser, status: 'Not Run', durationMs: 0, tests: [], artifacts: [] };
+
+      row.status = worstStatus([row.status, testStatus(test)]);
+      row.durationMs += test.results.reduce((total, result) => total + result.duration, 0);
+      row.tests.push(test.titlePath().slice(3).join(' › '));
+
+      for (const result of test.results) {
+        if (result.status === 'passed' || result.status === 'skipped') {
+          continue;
+        }
+        for (const attachment of result.attachments) {
+          if (attachment.path) {
+            row.artifacts.push(path.relative(outputDir, attachment.path));
+          }
+        }
+      }
+
+      rows.set(key, row);
+    }
+
+    return [...rows.values()];
+  }
+
+  /**
+   * Read the manual test plan, falling back to test titles when the workbook is unavailable
+   */
+  private async loadTestPlan(): Promise<Map<string, TestPlanCase>> {
+    if (!existsSync(this.testPlanPath)) {
+      console.warn(`Test plan ${this.testPlanPath} not found, using test titles in the traceability sheet`);
+      return new Map();
+    }
+    const cases = await readTestPlan(this.testPlanPath);
+    return new Map(cases.map(testCase => [testCase.id, testCase]));
+  }
+
+  private async writeWorkbook(
+    testIds: string[],
+    plan: Map<string, TestPlanCase>,
+    rows: ExecutionRow[],
+    browsers: string[]
+  ): Promise<void> {
+    const workbook = new ExcelJS.Workbook();
+    workbook.created = this.runDate;
+
+    // Summary: the test plan with the status per browser
+    const summary = workbook.addWorksheet('Summary');
+    summary.columns = [
+      { header: 'TC ID', key: 'id', width: 10 },
+      { header: 'Test Case Title', key: 'title', width: 40 },
+      { header: 'Preconditions', key: 'preconditions', width: 25 },
+      { header: 'Steps', key: 'steps', width: 40 },
+      { header: 'Expected Result', key: 'expectedResult', width: 40 },
+      ...browsers.map(browser => ({ header: browser, key: `browser:${browser}`, width: 14 })),
+      { header: 'Status', key: 'status', width: 14 },
+      { header: 'Run Date', key: 'runDate', width: 22 },
+    ];
+
+    for (const testId of testIds) {
+      const testCase = plan.get(testId);
+      const caseRows = rows.filter(row => row.testId === testId);
+      const browserStatuses = Object.fromEntries(
+        browsers.map(browser => [
+          `browser:${browser}`,
+          caseRows.find(row => row.browser === browser)?.status ?? 'Not Run',
+        ])
+      );
+
+      summary.addRow({
+        id: testId,
+        title: testCase?.title ?? caseTitle(testId, caseRows),
+        preconditions: testCase?.preconditions ?? '',
+        steps: testCase?.steps ?? '',
+        expectedResult: testCase?.expectedResult ?? '',
+        ...browserStatuses,
+        status: worstStatus(caseRows.map(row => row.status)),
+        runDate: this.runDate,
+      });
+    }
+
+    // Execution: one row per test case and browser
+    const execution = workbook.addWorksheet('Execution');
+    execution.columns = [
+      { header: 'TC ID', key: 'id', width: 10 },
+      { header: 'Test Case Title', key: 'title', width: 40 },
+      { header: 'Run Date', key: 'runDate', width: 22 },
+      { header: 'Browser', key: 'browser', width: 12 },
+      { header: 'Status', key: 'status', width: 14 },
+      { header: 'Duration (s)', key: 'duration', width: 12 },
+      { header: 'Tests', key: 'tests', width: 60 },
+      { header: 'Failure Artifacts', key: 'artifacts', width: 60 },
+    ];
+
+    for (const row of sortRows(testIds, rows)) {
+      const added = execution.addRow({
+        id: row.testId,
+        title: plan.get(row.testId)?.title ?? caseTitle(row.testId, [row]),
+        runDate: this.runDate,
+        browser: row.browser,
+        status: row.status,
+        duration: Number((row.durationMs / 1000).toFixed(1)),
+        tests: row.tests.join('\n'),
+        artifacts: row.artifacts.join('\n'),
+      });
+
+      // A cell holds one hyperlink, so link the first artifact and list the rest as text
+      if (row.artifacts.length > 0) {
+        added.getCell('artifacts').value = { text: row.artifacts.join('\n'), hyperlink: row.artifacts[0] };
+      }
+    }
+
+    for (const sheet of [summary, execution]) {
+      sheet.getRow(1).font = { bold: true };
+      sheet.getColumn('runDate').numFmt = 'yyyy-mm-dd hh:mm:ss';
+      sheet.eachRow(row => {
+        row.alignment = { vertical: 'top', wrapText: true };
+      });
+    }
+
+    await workbook.xlsx.writeFile(this.outputFile);
+  }
+
+  private writeCsv(testIds: string[], plan: Map<string, TestPlanCase>, rows: ExecutionRow[]): void {
+    const lines = [['TC ID', 'Test Case Title', 'Run Date', 'Browser', 'Status', 'Duration (s)', 'Tests', 'Failure Artifacts']];
+
+    for (const row of sortRows(testIds, rows)) {
+      lines.push([
+        row.testId,
+        plan.get(row.testId)?.title ?? caseTitle(row.testId, [row]),
+        this.runDate.toISOString(),
+        row.browser,
+        row.status,
+        (row.durationMs / 1000).toFixed(1),
+        row.tests.join('\n'),
+        row.artifacts.join('\n'),
+      ]);
+    }
+
+    const csvPath = this.outputFile.replace(/\.xlsx$/, '') + '.csv';
+    writeFileSync(csvPath, lines.map(line => line.map(csvField).join(',')).join('\n') + '\n');
+  }
+}
+
+/**
+ * Map a test's final outcome to an execution status
+ */
+function testStatus(test: TestCase): ExecutionStatus {
+  switch (test.outcome()) {
+    case 'expected':
+      return test.expectedStatus === 'failed' ? 'Known Failure' : test.expectedStatus === 'skipped' ? 'Skipped' : 'Pass';
+    case 'flaky':
+      return 'Flaky';
+    case 'skipped':
+      return 'Skipped';
+    default:
+      return 'Fail';
+  }
+}
+
+function worstStatus(statuses: ExecutionStatus[]): ExecutionStatus {
+  return statuses.reduce<ExecutionStatus>(
+    (worst, status) => (STATUS_ORDER.indexOf(status) < STATUS_ORDER.indexOf(worst) ? status : worst),
+    'Not Run'
+  );
+}
+
+/**
+ * Test case IDs in test plan order, followed by automated IDs the plan does not list
+ */
+function orderTestIds(plan: Map<string, TestPlanCase>, rows: ExecutionRow[]): string[] {
+  const extra = [...new Set(rows.map(row => row.testId))]
+    .filter(testId => !plan.has(testId))
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+  return [...plan.keys(), ...extra];
+}
+
+function sortRows(testIds: string[], rows: ExecutionRow[]): ExecutionRow[] {
+  return [...rows].sort(
+    (a, b) => testIds.indexOf(a.testId) - testIds.indexOf(b.testId) || a.browser.localeCompare(b.browser)
+  );
+}
+
+/**
+ * Title for a test case missing from the plan, taken from its first test
+ */
+function caseTitle(testId: string, rows: ExecutionRow[]): string {
+  const firstTest = rows[0]?.tests[0] ?? '';
+  const title = firstTest.split(' › ').pop() ?? '';
+  return title.replace(new RegExp(`^${testId}:?\\s*`), '');
+}
+
+function csvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
@@ -0,0 +1,228 @@
+import { Browser, chromium, Locator, Page } from '@playwright/test';
+import { Server } from 'http';
+import { environment, LOCAL_SERVER_PORT } from '../config/environments';
+import { catalogProduct } from '../fixtures/catalog';
+import { testData } from '../utils/test-data';
+import { LocatorDefinition, LocatorPage, locators, PageLocators, resolveLocator } from '../pages/locators';
+import { HeaderComponent } from '../pages/components/HeaderComponent';
+import { startSauceDemoServer } from '../server/saucedemo-server';
+import { CART_STORAGE_KEY, SESSION_COOKIE } from '../utils/app-state';
+
+/**
+ * Selector health check
+ * Visits every page of the active environment in Chromium, in the states its locators need (e.g. a product
+ * in the cart for the remove buttons, a submitted empty form for the error message), and reports each
+ * registered locator in pages/locators.ts as:
+ * - ok: the primary selector resolved
+ * - fallback: only the fallback selector resolved on a visit, so the primary needs updating
+ * - missing: neither selector resolved on any visit
+ * - ambiguous: a locator that should match one element matched several
+ * The local environment's stand-in server is started for the check.
+ * Exits with 1 if any locator is not ok.
+ *
+ * Usage: npm run locators:check
+ */
+type LocatorStatus = 'ok' | 'fallback' | 'missing' | 'ambiguous';
+
+/** A page state the check looks up locators in */
+interface Visit {
+  description: string;
+  path: string;
+  /** Pages whose locators are looked up */
+  pages: LocatorPage[];
+  /** Visit with the session cookie of the environment's user */
+  loggedIn: boolean;
+  /** Product ids in the cart */
+  cart?: number[];
+  /** Brings the page into the state to check, after it has loaded */
+  prepare?: (page: Page) => Promise<void>;
+}
+
+/** Outcome of looking up one locator on one visit */
+interface LocatorResult {
+  status: LocatorStatus;
+  matches: number;
+}
+
+const backpackId = catalogProduct(testData.products.backpack).id;
+
+const visits: Visit[] = [
+  { description: 'login page', path: '/', pages: ['login'], loggedIn: false },
+  {
+    description: 'login page with an error',
+    path: '/',
+    pages: ['login'],
+    loggedIn: false,
+    prepare: page => resolveLocator(page, locators.login.loginButton).click(),
+  },
+  { description: 'products, empty cart', path: '/inventory.html', pages: ['products', 'header', 'footer'], loggedIn: true },
+  {
+    description: 'products, product in cart',
+    path: '/inventory.html',
+    pages: ['products', 'header'],
+    loggedIn: true,
+    cart: [backpackId],
+  },
+  {
+    description: 'menu open',
+    path: '/inventory.html',
+    pages: ['header'],
+    loggedIn: true,
+    prepare: page => new HeaderComponent(page).openMenu(),
+  },
+  {
+    description: 'product details, not in cart',
+    path: `/inventory-item.html?id=${backpackId}`,
+    pages: ['productDetails'],
+    loggedIn: true,
+  },
+  {
+    description: 'product details, in cart',
+    path: `/inventory-item.html?id=${backpackId}`,
+    pages: ['productDetails'],
+    loggedIn: true,
+    cart: [backpackId],
+  },
+  { description: 'cart', path: '/cart.html', pages: ['cart'], loggedIn: true, cart: [backpackId] },
+  { description: 'checkout information', path: '/checkout-step-one.html', pages: ['checkoutInfo'], loggedIn: true, cart: [backpackId] },
+  {
+    description: 'checkout information with an error',
+    path: '/checkout-step-one.html',
+    pages: ['checkoutInfo'],
+    loggedIn: true,
+    cart: [backpackId],
+    prepare: page => resolveLocator(page, locators.checkoutInfo.continueButton).click(),
+  },
+  {
+    description: 'checkout overview',
+    path: '/checkout-step-two.html',
+    pages: ['checkoutOverview'],
+    loggedIn: true,
+    cart: [backpackId],
+  },
+  { description: 'checkout complete', path: '/checkout-complete.html', pages: ['checkoutComplete'], loggedIn: true },
+];
+
+/**
+ * Order in which the results of one locator across visits win: any ambiguity or fallback-only match is reported,
+ * then a locator is ok if it resolved on any visit, since most elements only exist in some page states
+ */
+const STATUS_PRECEDENCE: LocatorStatus[] = ['ambiguous', 'fallback', 'ok', 'missing'];
+
+async function checkLocator(page: Page, pageLocators: PageLocators, definition: LocatorDefinition): Promise<LocatorResult> {
+  let root: Page | Locator = page;
+  if (definition.within) {
+    const parent = pageLocators[definition.within];
+    if (!parent) {
+      throw new Error(`"${definition.selector}" is registered within unknown locator "${definition.within}"`);
+    }
+    root = resolveLocator(page, parent).first();
+  }
+
+  // Page objects resolve the primary or the fallback, so elements matched by either count towards ambiguity
+  const primaryMatches = await root.locator(definition.selector).count();
+  const matches = await resolveLocator(root, definition).count();
+
+  if (matches === 0) {
+    return { status: 'missing', matches };
+  }
+  if (!definition.multiple && matches > 1) {
+    return { status: 'ambiguous', matches };
+  }
+  return { status: primaryMatches > 0 ? 'ok' : 'fallback', matches };
+}
+
+async function runVisit(browser: Browser, visit: Visit): Promise<Map<string, LocatorResult>> {
+  const context = await browser.newContext({ baseURL: environment.baseURL });
+  try {
+    if (visit.loggedIn) {
+      await context.addCookies([
+        { name: SESSION_COOKIE, value: environment.credentials.username, url: environment.baseURL },
+      ]);
+    }
+    if (visit.cart) {
+      await context.addInitScript(
+        `window.localStorage.setItem('${CART_STORAGE_KEY}', '${JSON.stringify(visit.cart)}');`
+      );
+    }
+
+    const page = await context.newPage();
+    await page.goto(visit.path, { timeout: environment.timeouts.navigation });
+    await visit.prepare?.(page);
+
+    const results = new Map<string, LocatorResult>();
+    for (const pageName of visit.pages) {
+      const pageLocators: PageLocators = locators[pageName];
+      for (const [name, definition] of Object.entries(pageLocators)) {
+        results.set(`${pageName}.${name}`, await checkLocator(page, pageLocators, definition));
+      }
+    }
+    return results;
+  } finally {
+    await context.close();
+  }
+}
+
+async function main(): Promise<number> {
+  let server: Server | undefined;
+  if (environment.startLocalServer) {
+    server = await startSauceDemoServer({ port: LOCAL_SERVER_PORT, knownBugs: false });
+  }
+
+  const browser = await chromium.launch();
+  const results = new Map<string, { result: LocatorResult; visit: string }[]>();
+  try {
+    console.log(`Checking registered locators against the "${environment.name}" environment (${environment.baseURL})`);
+    for (const visit of visits) {
+      for (const [key, result] of await runVisit(browser, visit)) {
+        results.set(key, [...(results.get(key) ?? []), { result, visit: visit.description }]);
+      }
+    }
+  } finally {
+    await browser.close();
+    server?.close();
+  }
+
+  const problems: string[] = [];
+  for (const [pageName, pageLocators] of Object.entries(locators)) {
+    for (const name of Object.keys(pageLocators)) {
+      const key = `${pageName}.${name}`;
+      const lookups = results.get(key);
+      if (!lookups) {
+        problems.push(`  missing    ${key} (not looked up by any visit)`);
+        continue;
+      }
+
+      const status =
+        STATUS_PRECEDENCE.find(candidate => lookups.some(lookup => lookup.result.status === candidate)) ?? 'missing';
+      if (status === 'ok') {
+        continue;
+      }
+
+      const where = status === 'missing'
+        ? `checked on: ${lookups.map(lookup => lookup.visit).join(', ')}`
+        : lookups
+            .filter(lookup => lookup.result.status === status)
+            .map(lookup => `${lookup.visit}${status === 'ambiguous' ? ` (${lookup.result.matches} matches)` : ''}`)
+            .join(', ');
+      problems.push(`  ${status.padEnd(10)} ${key} - ${where}`);
+    }
+  }
+
+  const total = Object.values(locators).reduce((count, pageLocators) => count + Object.keys(pageLocators).length, 0);
+  if (problems.length === 0) {
+    console.log(`All ${total} registered locators resolve`);
+    return 0;
+  }
+
+  console.log(`\n${problems.length} of ${total} registered locator(s) need attention:`);
+  console.log(problems.join('\n'));
+  return 1;
+}
+
+main()
+  .then(code => process.exit(code))
+  .catch((error: Error) => {
+    console.error(`Locator health check failed: ${error.message}`);
+    process.exit(1);
+  });
@@ -0,0 +1,256 @@
+import { spawnSync } from 'child_process';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { findTestId } from '../utils/test-id';
+import { readTestPlan, TEST_PLAN_PATH, TestPlanCase } from '../utils/test-plan';
+
+/**
+ * Compare the test plan in the assessment workbook with the tests Playwright discovers
+ * Reports:
+ * - Cases with no automation: plan rows whose TC ID no test carries
+ * - Unmatched tests: tests whose ID is not in the plan, or that have no ID at all
+ * - Title drift: the case header above a test (the "TC-25: Empty Cart Checkout" doc comment) no longer
+ *   resembles the plan title
+ * With --generate, writes a spec skeleton of test.fixme() stubs for the uncovered cases.
+ *
+ * Usage: npm run coverage:gaps [-- --workbook <path>] [-- --generate [--out tests/uncovered-cases.spec.ts] [--force]]
+ */
+const ROOT_DIR = path.join(__dirname, '..');
+const DEFAULT_SKELETON_PATH = path.join(ROOT_DIR, 'tests', 'uncovered-cases.spec.ts');
+
+/** Titles with a word overlap (Dice coefficient) below this are reported as drifted */
+const DRIFT_THRESHOLD = 0.5;
+
+/** Words ignored when comparing titles */
+const STOP_WORDS = new Set(['a', 'an', 'and', 'the', 'to', 'of', 'off', 'on', 'in', 'by', 'from', 'with', 'should', 'back']);
+
+/** A test found by `playwright test --list` */
+interface DiscoveredTest {
+  testId?: string;
+  title: string;
+  file: string;
+  line: number;
+  /** Title from the doc comment header above the test, if it has one */
+  caseHeader?: string;
+}
+
+/** Subset of the JSON reporter output used here */
+interface JsonSuite {
+  specs?: { title: string; file: string; line: number; tests: { annotations: { type: string; description?: string }[] }[] }[];
+  suites?: JsonSuite[];
+}
+
+/**
+ * List the tests Playwright discovers, once per spec (not per project), leaving out auth setup tests
+ */
+function discoverTests(): DiscoveredTest[] {
+  const result = spawnSync('npx', ['playwright', 'test', '--list', '--reporter=json'], {
+    cwd: ROOT_DIR,
+    encoding: 'utf-8',
+    maxBuffer: 64 * 1024 * 1024,
+    shell: process.platform === 'win32',
+  });
+  if (result.status !== 0) {
+    throw new Error(`playwright test --list failed:\n${result.stderr}`);
+  }
+
+  const report = JSON.parse(result.stdout) as { config: { rootDir: string }; suites: JsonSuite[] };
+  const discovered = new Map<string, DiscoveredTest>();
+
+  const visit = (suite: JsonSuite) => {
+    for (const spec of suite.specs ?? []) {
+      if (spec.file.endsWith('.setup.ts')) {
+        continue;
+      }
+      const file = path.join(report.config.rootDir, spec.file);
+      const testId = findTestId(spec.title, spec.tests[0]?.annotations ?? []);
+      discovered.set(`${spec.file}:${spec.line}:${spec.title}`, {
+        testId,
+        title: spec.title,
+        file: path.relative(ROOT_DIR, file),
+        line: spec.line,
+        caseHeader: testId ? findCaseHeader(file, spec.line, testId) : undefined,
+      });
+    }
+    suite.suites?.forEach(visit);
+  };
+  report.suites.forEach(visit);
+
+  return [...discovered.values()];
+}
+
+/**
+ * Find the "TC-xx: Title" doc comment header just above a test
+ */
+function findCaseHeader(file: string, line: number, testId: string): string | undefined {
+  const lines = readFileSync(file, 'utf-8').split('\n');
+  const headerPattern = new RegExp(`^\\s*\\*\\s*${testId}:\\s*(.+?)\\s*$`);
+
+  for (let i = line - 2; i >= Math.max(0, line - 12); i--) {
+    const match = lines[i].match(headerPattern);
+    if (match) {
+      return match[1];
+    }
+  }
+  return undefined;
+}
+
+function titleWords(title: string): Set<string> {
+  return new Set(
+    title
+      .toLowerCase()
+      .replace(/^[a-z]{2,}-\d+:?\s*/, '')
+      .split(/[^a-z0-9]+/)
+      .filter(word => word && !STOP_WORDS.has(word))
+      .map(word => word.replace(/s$/, ''))
+  );
+}
+
+/**
+ * Word overlap of two titles, from 0 (nothing shared) to 1 (same words)
+ */
+function titleSimilarity(a: string, b: string): number {
+  const wordsA = titleWords(a);
+  const wordsB = titleWords(b);
+  if (wordsA.size + wordsB.size === 0) {
+    return 1;
+  }
+  const shared = [...wordsA].filter(word => wordsB.has(word)).length;
+  return (2 * shared) / (wordsA.size + wordsB.size);
+}
+
+/**
+ * Choose the fixtures a skeleton destructures: the page objects its steps refer to, and the page when a step
+ * navigates. A logged-in precondition takes authenticatedPage, which logs in when it is requested.
+ */
+function skeletonFixtures(testCase: TestPlanCase): string[] {
+  const steps = testCase.steps.toLowerCase();
+  const loggedIn = /logged in/.test(testCase.preconditions.toLowerCase());
+  const fixtures: string[] = [];
+
+  if (/navigate|url|go to|open/.test(steps)) fixtures.push(loggedIn ? 'authenticatedPage: page' : 'page');
+  else if (loggedIn) fixtures.push('authenticatedPage');
+  if (/login|log in|username|password/.test(steps)) fixtures.push('loginPage');
+  if (/product|filter|sort|add to cart/.test(steps)) fixtures.push('productsPage');
+  if (/detail/.test(steps)) fixtures.push('productDetailsPage');
+  if (/cart/.test(steps)) fixtures.push('cartPage');
+  if (/checkout/.test(steps)) fixtures.push('checkoutInfoPage', 'checkoutOverviewPage');
+  if (/finish|complete/.test(steps)) fixtures.push('checkoutCompletePage');
+
+  return [...new Set(fixtures)];
+}
+
+function commentLines(text: string, indent: string): string[] {
+  return text.split('\n').map(line => `${indent}// ${line.trim()}`);
+}
+
+/**
+ * Render a spec of test.fixme() stubs, one per uncovered case, annotated with the plan details
+ */
+function renderSkeleton(cases: TestPlanCase[]): string {
+  const tests = cases.map(testCase => {
+    const expected = testCase.expectedResult.replace(/\s*\n\s*/g, ' ');
+    const quote = (text: string) => text.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\s*\n\s*/g, ' ');
+    const fixtures = skeletonFixtures(testCase);
+    return [
+      `    /**`,
+      `     * ${testCase.id}: ${testCase.title}`,
+      `     * Verify that ${expected.charAt(0).toLowerCase()}${expected.slice(1)}`,
+      `     */`,
+      `    test.fixme('${testCase.id}: ${quote(testCase.title)}', {`,
+      `        annotation: [`,
+      `            { type: 'preconditions', description: '${quote(testCase.preconditions)}' },`,
+      `            { type: 'expected', description: '${quote(testCase.expectedResult)}' },`,
+      `        ],`,
+      `    }, async (${fixtures.length > 0 ? `{ ${fixtures.join(', ')} }` : ''}) => {`,
+      ...commentLines(testCase.steps, '        '),
+      ``,
+      `        // Expected: ${expected}`,
+      `    });`,
+    ].join('\n');
+  });
+
+  return [
+    `import { test } from '../fixtures/test-fixtures';`,
+    ``,
+    `/**`,
+    ` * Uncovered Test Cases`,
+    ` * Generated by \`npm run coverage:gaps -- --generate\` from the assessment workbook`,
+    ` * Test Cases: ${cases.map(testCase => testCase.id).join(', ')}`,
+    ` */`,
+    `test.describe('Uncovered Test Cases', () => {`,
+    tests.join('\n\n'),
+    `});`,
+    ``,
+  ].join('\n');
+}
+
+function readOption(argv: string[], name: string): string | undefined {
+  const index = argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : argv[index + 1];
+}
+
+async function main(argv: string[]): Promise<number> {
+  const workbookPath = path.resolve(readOption(argv, 'workbook') ?? TEST_PLAN_PATH);
+  const plan = await readTestPlan(workbookPath);
+  const tests = discoverTests();
+
+  const planIds = new Set(plan.map(testCase => testCase.id));
+  const automatedIds = new Set(tests.map(test => test.testId).filter(Boolean));
+
+  const uncovered = plan.filter(testCase => !automatedIds.has(testCase.id));
+  const unmatched = tests.filter(test => !test.testId || !planIds.has(test.testId));
+  const drifted = tests.flatMap(test => {
+    const testCase = plan.find(candidate => candidate.id === test.testId);
+    if (!testCase) {
+      return [];
+    }
+    const automatedTitle = test.caseHeader ?? test.title;
+    const similarity = titleSimilarity(testCase.title, automatedTitle);
+    return similarity < DRIFT_THRESHOLD ? [{ test, testCase, automatedTitle, similarity }] : [];
+  });
+
+  console.log(`Test plan: ${plan.length} cases in ${path.relative(process.cwd(), workbookPath)}`);
+  console.log(`Discovered: ${tests.length} tests covering ${[...automatedIds].filter(id => planIds.has(id!)).length} cases\n`);
+
+  console.log(`Cases with no automation (${uncovered.length}):`);
+  for (const testCase of uncovered) {
+    console.log(`  ${testCase.id}: ${testCase.title}`);
+  }
+
+  console.log(`\nAutomated tests with no matching case (${unmatched.length}):`);
+  for (const test of unmatched) {
+    console.log(`  ${test.title} (${test.file}:${test.line})${test.testId ? '' : ' - no test ID'}`);
+  }
+
+  console.log(`\nTitle drift (${drifted.length}):`);
+  for (const { test, testCase, automatedTitle, similarity } of drifted) {
+    console.log(`  ${testCase.id} (${test.file}:${test.line}) similarity ${similarity.toFixed(2)}`);
+    console.log(`    plan: ${testCase.title}`);
+    console.log(`    spec: ${automatedTitle}`);
+  }
+
+  if (argv.includes('--generate')) {
+    if (uncovered.length === 0) {
+      console.log('\nNo uncovered cases, no skeleton written');
+    } else {
+      const outputPath = path.resolve(readOption(argv, 'out') ?? DEFAULT_SKELETON_PATH);
+      if (existsSync(outputPath) && !argv.includes('--force')) {
+        console.error(`\n${path.relative(process.cwd(), outputPath)} already exists. Pass --force to overwrite it.`);
+        return 1;
+      }
+      writeFileSync(outputPath, renderSkeleton(uncovered));
+      console.log(`\nWrote ${uncovered.length} skeleton test(s) to ${path.relative(process.cwd(), outputPath)}`);
+    }
+  }
+
+  return uncovered.length > 0 ? 1 : 0;
+}
+
+main(process.argv.slice(2)).then(
+  code => process.exit(code),
+  error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+);
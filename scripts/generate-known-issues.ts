@@ -0,0 +1,62 @@
+import { readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { knownBugs } from '../utils/known-bugs';
+
+/**
+ * Regenerate the README's Known Issues section from fixtures/known-bugs.json
+ * The section lives between the known-issues markers; everything outside them is left untouched.
+ * With --check nothing is written and the exit code reports whether the README is out of date.
+ *
+ * Usage: npm run docs:known-issues [-- --check]
+ */
+const README_PATH = path.join(__dirname, '..', 'README.md');
+const START_MARKER = '<!-- known-issues:start -->';
+const END_MARKER = '<!-- known-issues:end -->';
+
+const STATUS_TEXT = {
+  open: 'Open - test marked as expected failure; the run reports "BUG APPEARS FIXED" if it starts passing',
+  fixed: 'Fixed - test runs as a regular test',
+};
+
+function renderKnownIssues(): string {
+  const sections = Object.entries(knownBugs).map(([bugId, bug]) =>
+    [
+      `### ${bugId} (${bug.testIds.join(', ')}): ${bug.title}`,
+      `- **Issue**: ${bug.issue}`,
+      `- **Expected**: ${bug.expected}`,
+      `- **Actual**: ${bug.actual}`,
+      `- **Status**: ${STATUS_TEXT[bug.status]}`,
+      `- **Location**: \`${bug.location}\``,
+      `- **Impact**: ${bug.impact}`,
+    ].join('\n')
+  );
+
+  return [START_MARKER, ...sections, END_MARKER].join('\n\n');
+}
+
+function main(argv: string[]): number {
+  const readme = readFileSync(README_PATH, 'utf-8');
+  const start = readme.indexOf(START_MARKER);
+  const end = readme.indexOf(END_MARKER);
+  if (start === -1 || end < start) {
+    console.error(`README.md is missing the ${START_MARKER} / ${END_MARKER} markers`);
+    return 1;
+  }
+
+  const updated = readme.slice(0, start) + renderKnownIssues() + readme.slice(end + END_MARKER.length);
+  if (updated === readme) {
+    console.log('README Known Issues section is up to date');
+    return 0;
+  }
+
+  if (argv.includes('--check')) {
+    console.error('README Known Issues section is out of date. Run `npm run docs:known-issues`.');
+    return 1;
+  }
+
+  writeFileSync(README_PATH, updated);
+  console.log(`Updated README Known Issues section with ${Object.keys(knownBugs).length} bug(s)`);
+  return 0;
+}
+
+process.exit(main(process.argv.slice(2)));
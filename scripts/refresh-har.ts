@@ -0,0 +1,92 @@
+import { spawnSync } from 'child_process';
+import { existsSync, readdirSync, statSync } from 'fs';
+import path from 'path';
+import { environment } from '../config/environments';
+import { harArchivePath } from '../utils/har';
+
+/**
+ * Re-record stale HAR archives for the active environment
+ * An archive is stale when it is missing, older than its spec file, or older than --max-age-days (default 30).
+ * The stale specs run with HAR_MODE=record in Chromium, which replaces their archives in fixtures/har/<environment>/.
+ * Spec files given on the command line are re-recorded regardless of age; --all re-records every spec.
+ * Other options (e.g. --project=firefox) are passed to Playwright.
+ *
+ * Usage: npm run har:refresh [-- tests/login.spec.ts] [-- --all] [-- --max-age-days=7]
+ */
+const TESTS_DIR = path.join(__dirname, '..', 'tests');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Why a spec's archive needs recording, or undefined if it is fresh */
+function staleReason(specFile: string, maxAgeDays: number): string | undefined {
+  const archive = harArchivePath(specFile);
+  if (!existsSync(archive)) {
+    return 'no archive';
+  }
+
+  const archiveTime = statSync(archive).mtimeMs;
+  if (statSync(specFile).mtimeMs > archiveTime) {
+    return 'spec changed since recording';
+  }
+
+  const ageDays = Math.floor((Date.now() - archiveTime) / DAY_MS);
+  return ageDays > maxAgeDays ? `recorded ${ageDays} days ago` : undefined;
+}
+
+function main(argv: string[]): number {
+  let all = false;
+  let maxAgeDays = 30;
+  const requested: string[] = [];
+  const forwarded: string[] = [];
+
+  for (const arg of argv) {
+    if (arg === '--all') {
+      all = true;
+    } else if (arg.startsWith('--max-age-days=')) {
+      maxAgeDays = Number(arg.slice('--max-age-days='.length));
+    } else if (arg.endsWith('.ts')) {
+      requested.push(path.resolve(arg));
+    } else {
+      forwarded.push(arg);
+    }
+  }
+
+  if (!Number.isFinite(maxAgeDays) || maxAgeDays < 0) {
+    console.error('--max-age-days must be a number of days');
+    return 1;
+  }
+
+  const specFiles = readdirSync(TESTS_DIR)
+    .filter(file => /\.(spec|setup)\.ts$/.test(file))
+    .map(file => path.join(TESTS_DIR, file));
+
+  const stale = requested.length > 0 || all
+    ? (all ? specFiles : requested).map(file => ({ file, reason: 'requested' }))
+    : specFiles
+        .map(file => ({ file, reason: staleReason(file, maxAgeDays) }))
+        .filter((spec): spec is { file: string; reason: string } => spec.reason !== undefined);
+
+  if (stale.length === 0) {
+    console.log(`HAR archives for the "${environment.name}" environment are up to date`);
+    return 0;
+  }
+
+  console.log(`Recording ${stale.length} spec(s) against the "${environment.name}" environment:`);
+  for (const spec of stale) {
+    console.log(`  ${path.relative(process.cwd(), spec.file)} (${spec.reason})`);
+  }
+
+  const project = forwarded.some(arg => arg.startsWith('--project')) ? [] : ['--project=chromium'];
+  const result = spawnSync(
+    'npx',
+    ['playwright', 'test', ...stale.map(spec => path.relative(process.cwd(), spec.file)), ...project, ...forwarded],
+    {
+      stdio: 'inherit',
+      shell: process.platform === 'win32',
+      env: { ...process.env, HAR_MODE: 'record' },
+    }
+  );
+
+  return result.status ?? 1;
+}
+
+process.exit(main(process.argv.slice(2)));
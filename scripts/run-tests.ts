@@ -0,0 +1,40 @@
+import { spawnSync } from 'child_process';
+import { environments, isEnvironmentName } from '../config/environments';
+
+/**
+ * Run the Playwright suite against a named environment profile
+ * Playwright rejects unknown CLI options, so the --env flag is consumed here and passed on as TEST_ENV.
+ *
+ * Usage: npm run test:env -- --env=staging [playwright test options]
+ */
+function main(argv: string[]): number {
+  const forwarded: string[] = [];
+  let envName = process.env.TEST_ENV ?? 'prod';
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--env') {
+      envName = argv[++i] ?? '';
+    } else if (arg.startsWith('--env=')) {
+      envName = arg.slice('--env='.length);
+    } else {
+      forwarded.push(arg);
+    }
+  }
+
+  if (!isEnvironmentName(envName)) {
+    console.error(`Unknown environment "${envName}". Use one of: ${Object.keys(environments).join(', ')}`);
+    return 1;
+  }
+
+  console.log(`Running tests against the "${envName}" environment`);
+  const result = spawnSync('npx', ['playwright', 'test', ...forwarded], {
+    stdio: 'inherit',
+    shell: process.platform === 'win32',
+    env: { ...process.env, TEST_ENV: envName },
+  });
+
+  return result.status ?? 1;
+}
+
+process.exit(main(process.argv.slice(2)));
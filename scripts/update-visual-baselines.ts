@@ -0,0 +1,63 @@
+import { spawnSync } from 'child_process';
+import path from 'path';
+import { environment } from '../config/environments';
+
+/**
+ * Update the visual baselines of tests/visual.spec.ts for the active environment
+ * Runs the visual checks as standard_user with --update-snapshots=changed, so only baselines that no longer
+ * match are rewritten, then lists the baseline files that changed in git for review before they are committed.
+ * Playwright options such as --project are passed through.
+ *
+ * Usage: npm run test:visual:update [-- --project=chromium]
+ */
+const BASELINE_DIR = path.join('tests', '__screenshots__');
+
+const GIT_STATUS_TEXT: Record<string, string> = {
+  '??': 'added',
+  M: 'changed',
+  D: 'deleted',
+};
+
+function listChangedBaselines(): string[] {
+  const result = spawnSync('git', ['status', '--porcelain', '--untracked-files=all', '--', BASELINE_DIR], {
+    encoding: 'utf-8',
+  });
+  if (result.status !== 0) {
+    return [];
+  }
+
+  return result.stdout
+    .split('\n')
+    .filter(Boolean)
+    .map(line => {
+      const status = line.slice(0, 2).trim();
+      return `  ${(GIT_STATUS_TEXT[status] ?? status).padEnd(8)} ${line.slice(3)}`;
+    });
+}
+
+function main(argv: string[]): number {
+  console.log(`Updating visual baselines for the "${environment.name}" environment`);
+  const result = spawnSync(
+    'npx',
+    ['playwright', 'test', 'tests/visual.spec.ts', '--update-snapshots=changed', ...argv],
+    {
+      stdio: 'inherit',
+      shell: process.platform === 'win32',
+      env: { ...process.env, PERSONAS: 'standard_user' },
+    }
+  );
+
+  const changed = listChangedBaselines();
+  if (changed.length === 0) {
+    console.log('\nNo baseline changed');
+  } else {
+    console.log(`\n${changed.length} baseline(s) changed:`);
+    console.log(changed.join('\n'));
+    console.log('\nReview each image (e.g. `git difftool` or your image viewer) before committing it;');
+    console.log(`discard unwanted updates with \`git checkout -- ${BASELINE_DIR}\`.`);
+  }
+
+  return result.status ?? 1;
+}
+
+process.exit(main(process.argv.slice(2)));
@@ -0,0 +1,797 @@
+/**
+ * Client-side application of the offline SauceDemo stand-in
+ * Mirrors the DOM structure, data-test attributes, ids and messages of https://www.saucedemo.com
+ * for the pages exercised by the page objects in /pages.
+ */
+(function () {
+  'use strict';
+
+  var flags = window.__SAUCEDEMO_STUB__ || { knownBugs: true };
+
+  var PASSWORD = 'secret_sauce';
+  var USERS = [
+    'standard_user',
+    'locked_out_user',
+    'problem_user',
+    'performance_glitch_user',
+    'error_user',
+    'visual_user'
+  ];
+  var SESSION_COOKIE = 'session-username';
+  var SESSION_MINUTES = 10;
+  var CART_KEY = 'cart-contents';
+  var TAX_RATE = 0.08;
+
+  var PRODUCTS = [
+    {
+      id: 4,
+      name: 'Sauce Labs Backpack',
+      desc: 'carry.allTheThings() with the sleek, streamlined Sly Pack that melds uncompromising style with unequaled laptop and tablet protection.',
+      price: 29.99,
+      image: 'sauce-backpack-1200x1500.0a0b85a3.jpg'
+    },
+    {
+      id: 0,
+      name: 'Sauce Labs Bike Light',
+      desc: 'A red light isn\'t the desired state in testing but it sure helps when riding your bike at night. Water-resistant with 3 lighting modes, 1 AAA battery included.',
+      price: 9.99,
+      image: 'bike-light-1200x1500.37c843b0.jpg'
+    },
+    {
+      id: 1,
+      name: 'Sauce Labs Bolt T-Shirt',
+      desc: 'Get your testing superhero on with the Sauce Labs bolt T-shirt. From American Apparel, 100% ringspun combed cotton, heather gray with red bolt.',
+      price: 15.99,
+      image: 'bolt-shirt-1200x1500.c2599ac5.jpg'
+    },
+    {
+      id: 5,
+      name: 'Sauce Labs Fleece Jacket',
+      desc: 'It\'s not every day that you come across a midweight quarter-zip fleece jacket capable of handling everything from a relaxing day outdoors to a busy day at the office.',
+      price: 49.99,
+      image: 'sauce-pullover-1200x1500.51d7ffaf.jpg'
+    },
+    {
+      id: 2,
+      name: 'Sauce Labs Onesie',
+      desc: 'Rib snap infant onesie for the junior automation engineer in development. Reinforced 3-snap bottom closure, two-needle hemmed sleeved and bottom won\'t unravel.',
+      price: 7.99,
+      image: 'red-onesie-1200x1500.2ec615b2.jpg'
+    },
+    {
+      id: 3,
+      name: 'Test.allTheThings() T-Shirt (Red)',
+      desc: 'This classic Sauce Labs t-shirt is perfect to wear when cooking up some robots. Super-soft and comfy ringspun combed cotton.',
+      price: 15.99,
+      image: 'red-tatt-1200x1500.30dadef4.jpg'
+    }
+  ];
+
+  var SORT_OPTIONS = [
+    { value: 'az', label: 'Name (A to Z)' },
+    { value: 'za', label: 'Name (Z to A)' },
+    { value: 'lohi', label: 'Price (low to high)' },
+    { value: 'hilo', label: 'Price (high to low)' }
+  ];
+
+  // Per-account quirks, mirroring the defects SauceDemo builds into its test accounts
+  var PERSONA_QUIRKS = {
+    problem_user: {
+      brokenImages: true,
+      failingAdd: [1, 5, 3],
+      failingRemove: [4, 0, 2],
+      sort: 'ignored',
+      lastName: 'overwrites-first-name'
+    },
+    performance_glitch_user: {
+      loginDelayMs: 5000
+    },
+    error_user: {
+      failingAdd: [1, 5, 3],
+      sort: 'alert',
+      lastName: 'ignored',
+      failingFinish: true
+    },
+    visual_user: {
+      brokenImageIds: [4],
+      scrambledPrices: true,
+      misplacedCart: true
+    }
+  };
+  var BROKEN_IMAGE = 'sl-404.168b1cce.jpg';
+
+  var PROTECTED_ROUTES = [
+    '/inventory.html',
+    '/inventory-item.html',
+    '/cart.html',
+    '/checkout-step-one.html',
+    '/checkout-step-two.html',
+    '/checkout-complete.html'
+  ];
+
+  var root = document.getElementById('root');
+  var state = {
+    sort: 'az',
+    loginError: '',
+    checkoutError: '',
+    menuOpen: false
+  };
+
+  // ---------------------------------------------------------------------------
+  // Helpers
+  // ---------------------------------------------------------------------------
+
+  function escapeHtml(value) {
+    return String(value)
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+
+  function slug(name) {
+    return name.replace(/\s+/g, '-').toLowerCase();
+  }
+
+  function formatPrice(value) {
+    return '$' + value.toFixed(2);
+  }
+
+  function findProduct(id) {
+    for (var i = 0; i < PRODUCTS.length; i++) {
+      if (PRODUCTS[i].id === id) {
+        return PRODUCTS[i];
+      }
+    }
+    return null;
+  }
+
+  function navigate(path) {
+    window.location.assign(path);
+  }
+
+  function quirks() {
+    return PERSONA_QUIRKS[getSessionUser()] || {};
+  }
+
+  function productImage(product) {
+    var current = quirks();
+    if (current.brokenImages || (current.brokenImageIds && current.brokenImageIds.indexOf(product.id) !== -1)) {
+      return BROKEN_IMAGE;
+    }
+    return product.image;
+  }
+
+  function displayedInventoryPrice(product) {
+    if (!quirks().scrambledPrices) {
+      return product.price;
+    }
+    // visual_user sees every product with the price of the next product in the catalog
+    var index = PRODUCTS.indexOf(product);
+    return PRODUCTS[(index + 1) % PRODUCTS.length].price;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Session and cart storage
+  // ---------------------------------------------------------------------------
+
+  function getSessionUser() {
+    var cookies = document.cookie ? document.cookie.split('; ') : [];
+    for (var i = 0; i < cookies.length; i++) {
+      var parts = cookies[i].split('=');
+      if (parts[0] === SESSION_COOKIE) {
+        return decodeURIComponent(parts.slice(1).join('='));
+      }
+    }
+    return '';
+  }
+
+  function startSession(username) {
+    var expires = new Date(Date.now() + SESSION_MINUTES * 60 * 1000).toUTCString();
+    document.cookie = SESSION_COOKIE + '=' + encodeURIComponent(username) + '; expires=' + expires + '; path=/';
+  }
+
+  function endSession() {
+    document.cookie = SESSION_COOKIE + '=; expires=Thu, 01 Jan 1970 00:00:00 GMT; path=/';
+  }
+
+  function getCart() {
+    try {
+      var stored = JSON.parse(window.localStorage.getItem(CART_KEY) || '[]');
+      return Array.isArray(stored) ? stored.filter(function (id) { return findProduct(id) !== null; }) : [];
+    } catch (error) {
+      return [];
+    }
+  }
+
+  function setCart(ids) {
+    if (ids.length === 0) {
+      window.localStorage.removeItem(CART_KEY);
+    } else {
+      window.localStorage.setItem(CART_KEY, JSON.stringify(ids));
+    }
+  }
+
+  function isInCart(id) {
+    return getCart().indexOf(id) !== -1;
+  }
+
+  function addToCart(id) {
+    var cart = getCart();
+    if (cart.indexOf(id) === -1) {
+      cart.push(id);
+      setCart(cart);
+    }
+  }
+
+  function removeFromCart(id) {
+    setCart(getCart().filter(function (cartId) { return cartId !== id; }));
+  }
+
+  // ---------------------------------------------------------------------------
+  // Shared fragments
+  // ---------------------------------------------------------------------------
+
+  function renderError(message, closeTestId) {
+    if (!message) {
+      return '<div class="error-message-container"></div>';
+    }
+    return (
+      '<div class="error-message-container error">' +
+        '<h3 data-test="error">' +
+          '<button class="error-button" data-test="' + closeTestId + '" aria-label="Close error"></button>' +
+          escapeHtml(message) +
+        '</h3>' +
+      '</div>'
+    );
+  }
+
+  function renderCartBadge() {
+    var count = getCart().length;
+    if (count === 0) {
+      return '';
+    }
+    return '<span class="shopping_cart_badge" data-test="shopping-cart-badge">' + count + '</span>';
+  }
+
+  function renderHeader(title, secondaryContent) {
+    var menuWrapClass = 'bm-menu-wrap' + (state.menuOpen ? ' bm-menu-wrap--open' : '');
+    return (
+      '<div class="header_container" data-test="header-container" id="header_container">' +
+        '<div class="primary_header" data-test="primary-header">' +
+          '<div id="menu_button_container">' +
+            '<div class="bm-burger-button">' +
+              '<button type="button" id="react-burger-menu-btn" data-test="open-menu">Open Menu</button>' +
+            '</div>' +
+            '<div class="' + menuWrapClass + '" aria-hidden="' + (state.menuOpen ? 'false' : 'true') + '">' +
+              '<div class="bm-menu">' +
+                '<nav class="bm-item-list">' +
+                  '<a id="inventory_sidebar_link" class="bm-item menu-item" href="/inventory.html" data-test="inventory-sidebar-link">All Items</a>' +
+                  '<a id="about_sidebar_link" class="bm-item menu-item" href="https://saucelabs.com/" data-test="about-sidebar-link">About</a>' +
+                  '<a id="logout_sidebar_link" class="bm-item menu-item" href="#" data-test="logout-sidebar-link">Logout</a>' +
+                  '<a id="reset_sidebar_link" class="bm-item menu-item" href="#" data-test="reset-sidebar-link">Reset App State</a>' +
+                '</nav>' +
+              '</div>' +
+              '<div class="bm-cross-button">' +
+                '<button type="button" id="react-burger-cross-btn" data-test="close-menu">Close Menu</button>' +
+              '</div>' +
+            '</div>' +
+            '<div class="bm-overlay' + (state.menuOpen ? ' bm-overlay--open' : '') + '"></div>' +
+          '</div>' +
+          '<div class="header_label"><div class="app_logo">Swag Labs</div></div>' +
+          '<div id="shopping_cart_container" class="shopping_cart_container' + (quirks().misplacedCart ? ' visual_failure' : '') + '">' +
+            '<a class="shopping_cart_link" data-test="shopping-cart-link" href="/cart.html">' + renderCartBadge() + '</a>' +
+          '</div>' +
+        '</div>' +
+        '<div class="header_secondary_container" data-test="secondary-header">' +
+          (title ? '<span class="title" data-test="title">' + escapeHtml(title) + '</span>' : '') +
+          (secondaryContent || '') +
+        '</div>' +
+      '</div>'
+    );
+  }
+
+  function renderFooter() {
+    return (
+      '<footer class="footer" data-test="footer">' +
+        '<div class="footer_copy" data-test="footer-copy">© 2025 Sauce Labs. All Rights Reserved. Terms of Service | Privacy Policy</div>' +
+      '</footer>'
+    );
+  }
+
+  function renderAuthenticatedPage(title, secondaryContent, contentId, content) {
+    return (
+      '<div id="page_wrapper" class="page_wrapper">' +
+        '<div id="contents_wrapper">' +
+          renderHeader(title, secondaryContent) +
+          '<div id="' + contentId + '" class="' + contentId + '" data-test="' + contentId.replace(/_/g, '-') + '">' + content + '</div>' +
+        '</div>' +
+        renderFooter() +
+      '</div>'
+    );
+  }
+
+  function renderCartItem(product, withRemoveButton) {
+    var button = withRemoveButton
+      ? '<button class="btn btn_secondary btn_small cart_button" data-test="remove-' + slug(product.name) +
+        '" id="remove-' + slug(product.name) + '" name="remove-' + slug(product.name) + '" data-action="remove" data-id="' +
+        product.id + '">Remove</button>'
+      : '';
+    return (
+      '<div class="cart_item" data-test="inventory-item">' +
+        '<div class="cart_quantity" data-test="item-quantity">1</div>' +
+        '<div class="cart_item_label">' +
+          '<a href="/inventory-item.html?id=' + product.id + '" id="item_' + product.id + '_title_link" data-test="item-' + product.id + '-title-link">' +
+            '<div class="inventory_item_name" data-test="inventory-item-name">' + escapeHtml(product.name) + '</div>' +
+          '</a>' +
+          '<div class="inventory_item_desc" data-test="inventory-item-desc">' + escapeHtml(product.desc) + '</div>' +
+          '<div class="item_pricebar">' +
+            '<div class="inventory_item_price" data-test="inventory-item-price">' + formatPrice(product.price) + '</div>' +
+            button +
+          '</div>' +
+        '</div>' +
+      '</div>'
+    );
+  }
+
+  function renderCartList(withRemoveButtons) {
+    var items = getCart().map(function (id) { return renderCartItem(findProduct(id), withRemoveButtons); }).join('');
+    return (
+      '<div class="cart_list" data-test="cart-list">' +
+        '<div class="cart_quantity_label" data-test="cart-quantity-label">QTY</div>' +
+        '<div class="cart_desc_label" data-test="cart-desc-label">Description</div>' +
+        items +
+      '</div>'
+    );
+  }
+
+  // ---------------------------------------------------------------------------
+  // Pages
+  // ---------------------------------------------------------------------------
+
+  function renderLogin() {
+    document.body.className = 'login_body';
+    root.innerHTML =
+      '<div class="login_container">' +
+        '<div class="login_logo">Swag Labs</div>' +
+        '<div class="login_wrapper">' +
+          '<div class="login_wrapper-inner">' +
+            '<div id="login_button_container" class="form_column">' +
+              '<div class="login-box">' +
+                '<form id="login-form">' +
+                  '<div class="form_group">' +
+                    '<input class="input_error form_input" placeholder="Username" type="text" data-test="username" id="user-name" name="user-name" autocorrect="off" autocapitalize="none">' +
+                  '</div>' +
+                  '<div class="form_group">' +
+                    '<input class="input_error form_input" placeholder="Password" type="password" data-test="password" id="password" name="password" autocorrect="off" autocapitalize="none">' +
+                  '</div>' +
+                  renderError(state.loginError, 'error-button') +
+                  '<input type="submit" class="submit-button btn_action" data-test="login-button" id="login-button" name="login-button" value="Login">' +
+                '</form>' +
+              '</div>' +
+            '</div>' +
+          '</div>' +
+          '<div class="login_credentials_wrap">' +
+            '<div class="login_credentials_wrap-inner">' +
+              '<div id="login_credentials" class="login_credentials" data-test="login-credentials">' +
+                '<h4>Accepted usernames are:</h4>' + USERS.join('<br>') +
+              '</div>' +
+              '<div class="login_password" data-test="login-password">' +
+                '<h4>Password for all users:</h4>' + PASSWORD +
+              '</div>' +
+            '</div>' +
+          '</div>' +
+        '</div>' +
+      '</div>';
+  }
+
+  function submitLogin() {
+    var username = document.getElementById('user-name').value;
+    var password = document.getElementById('password').value;
+
+    if (!username) {
+      state.loginError = 'Epic sadface: Username is required';
+    } else if (!password) {
+      state.loginError = 'Epic sadface: Password is required';
+    } else if (USERS.indexOf(username) === -1 || password !== PASSWORD) {
+      state.loginError = 'Epic sadface: Username and password do not match any user in this service';
+    } else if (username === 'locked_out_user') {
+      state.loginError = 'Epic sadface: Sorry, this user has been locked out.';
+    } else {
+      startSession(username);
+      var delay = quirks().loginDelayMs || 0;
+      if (delay) {
+        window.setTimeout(function () { navigate('/inventory.html'); }, delay);
+      } else {
+        navigate('/inventory.html');
+      }
+      return;
+    }
+
+    renderLogin();
+    document.getElementById('user-name').value = username;
+    document.getElementById('password').value = password;
+  }
+
+  function sortedProducts() {
+    var products = PRODUCTS.slice();
+    switch (state.sort) {
+      case 'za':
+        return products.sort(function (a, b) { return b.name.localeCompare(a.name); });
+      case 'lohi':
+        return products.sort(function (a, b) { return a.price - b.price; });
+      case 'hilo':
+        return products.sort(function (a, b) { return b.price - a.price; });
+      default:
+        return products.sort(function (a, b) { return a.name.localeCompare(b.name); });
+    }
+  }
+
+  function renderInventoryButton(product) {
+    var productSlug = slug(product.name);
+    if (isInCart(product.id)) {
+      return '<button class="btn btn_secondary btn_small btn_inventory" data-test="remove-' + productSlug + '" id="remove-' +
+        productSlug + '" name="remove-' + productSlug + '" data-action="remove" data-id="' + product.id + '">Remove</button>';
+    }
+    return '<button class="btn btn_primary btn_small btn_inventory" data-test="add-to-cart-' + productSlug + '" id="add-to-cart-' +
+      productSlug + '" name="add-to-cart-' + productSlug + '" data-action="add" data-id="' + product.id + '">Add to cart</button>';
+  }
+
+  function renderInventoryItem(product) {
+    return (
+      '<div class="inventory_item" data-test="inventory-item">' +
+        '<div class="inventory_item_img">' +
+          '<a href="/inventory-item.html?id=' + product.id + '" id="item_' + product.id + '_img_link" data-test="item-' + product.id + '-img-link">' +
+            '<img alt="' + escapeHtml(product.name) + '" class="inventory_item_img" src="/static/media/' + productImage(product) +
+            '" data-test="inventory-item-' + slug(product.name) + '-img">' +
+          '</a>' +
+        '</div>' +
+        '<div class="inventory_item_description" data-test="inventory-item-description">' +
+          '<div class="inventory_item_label">' +
+            '<a href="/inventory-item.html?id=' + product.id + '" id="item_' + product.id + '_title_link" data-test="item-' + product.id + '-title-link">' +
+              '<div class="inventory_item_name" data-test="inventory-item-name">' + escapeHtml(product.name) + '</div>' +
+            '</a>' +
+            '<div class="inventory_item_desc" data-test="inventory-item-desc">' + escapeHtml(product.desc) + '</div>' +
+          '</div>' +
+          '<div class="pricebar">' +
+            '<div class="inventory_item_price" data-test="inventory-item-price">' + formatPrice(displayedInventoryPrice(product)) + '</div>' +
+            renderInventoryButton(product) +
+          '</div>' +
+        '</div>' +
+      '</div>'
+    );
+  }
+
+  function renderSortContainer() {
+    var activeLabel = '';
+    var options = SORT_OPTIONS.map(function (option) {
+      if (option.value === state.sort) {
+        activeLabel = option.label;
+      }
+      return '<option value="' + option.value + '"' + (option.value === state.sort ? ' selected' : '') + '>' + option.label + '</option>';
+    }).join('');
+    return (
+      '<div class="right_component">' +
+        '<span class="select_container">' +
+          '<span class="active_option" data-test="active-option">' + activeLabel + '</span>' +
+          '<select class="product_sort_container" data-test="product-sort-container">' + options + '</select>' +
+        '</span>' +
+      '</div>'
+    );
+  }
+
+  function renderInventory() {
+    root.innerHTML = renderAuthenticatedPage(
+      'Products',
+      renderSortContainer(),
+      'inventory_container',
+      '<div class="inventory_list" data-test="inventory-list">' + sortedProducts().map(renderInventoryItem).join('') + '</div>'
+    );
+  }
+
+  function renderItemDetails() {
+    var id = Number(new URLSearchParams(window.location.search).get('id'));
+    var product = findProduct(id);
+    var backButton =
+      '<button class="btn btn_secondary back btn_large inventory_details_back_button" data-test="back-to-products" id="back-to-products" name="back-to-products">Back to products</button>';
+
+    var details;
+    if (!product) {
+      details =
+        '<div class="inventory_details_desc_container">' +
+          '<div class="inventory_details_name large_size" data-test="inventory-item-name">ITEM NOT FOUND</div>' +
+          '<div class="inventory_details_desc large_size" data-test="inventory-item-desc">We\'re sorry, but your call could not be completed as dialed. Please check your number and try again.</div>' +
+          '<div class="inventory_details_price" data-test="inventory-item-price">$√-1</div>' +
+        '</div>';
+    } else {
+      var button = isInCart(product.id)
+        ? '<button class="btn btn_secondary btn_small btn_inventory" data-test="remove" id="remove" name="remove" data-action="remove" data-id="' + product.id + '">Remove</button>'
+        : '<button class="btn btn_primary btn_small btn_inventory" data-test="add-to-cart" id="add-to-cart" name="add-to-cart" data-action="add" data-id="' + product.id + '">Add to cart</button>';
+      details =
+        '<div class="inventory_details_img_container">' +
+          '<img alt="' + escapeHtml(product.name) + '" class="inventory_details_img" src="/static/media/' + productImage(product) +
+          '" data-test="item-' + slug(product.name) + '-img">' +
+        '</div>' +
+        '<div class="inventory_details_desc_container">' +
+          '<div class="inventory_details_name large_size" data-test="inventory-item-name">' + escapeHtml(product.name) + '</div>' +
+          '<div class="inventory_details_desc large_size" data-test="inventory-item-desc">' + escapeHtml(product.desc) + '</div>' +
+          '<div class="inventory_details_price" data-test="inventory-item-price">' + formatPrice(product.price) + '</div>' +
+          button +
+        '</div>';
+    }
+
+    root.innerHTML = renderAuthenticatedPage(
+      '',
+      backButton,
+      'inventory_item_container',
+      '<div class="inventory_details" data-test="inventory-container"><div class="inventory_details_container">' + details + '</div></div>'
+    );
+  }
+
+  function renderCart() {
+    root.innerHTML = renderAuthenticatedPage(
+      'Your Cart',
+      '',
+      'cart_contents_container',
+      renderCartList(true) +
+      '<div class="cart_footer">' +
+        '<button class="btn btn_secondary back btn_medium" data-test="continue-shopping" id="continue-shopping" name="continue-shopping">Continue Shopping</button>' +
+        '<button class="btn btn_action btn_medium checkout_button" data-test="checkout" id="checkout" name="checkout">Checkout</button>' +
+      '</div>'
+    );
+  }
+
+  function renderCheckoutInfo(values) {
+    values = values || { firstName: '', lastName: '', postalCode: '' };
+    root.innerHTML = renderAuthenticatedPage(
+      'Checkout: Your Information',
+      '',
+      'checkout_info_container',
+      '<div class="checkout_info_wrapper">' +
+        '<form id="checkout-info-form">' +
+          '<div class="checkout_info">' +
+            '<div class="form_group"><input class="input_error form_input" placeholder="First Name" type="text" data-test="firstName" id="first-name" name="firstName" value="' + escapeHtml(values.firstName) + '"></div>' +
+            '<div class="form_group"><input class="input_error form_input" placeholder="Last Name" type="text" data-test="lastName" id="last-name" name="lastName" value="' + escapeHtml(values.lastName) + '"></div>' +
+            '<div class="form_group"><input class="input_error form_input" placeholder="Zip/Postal Code" type="text" data-test="postalCode" id="postal-code" name="postalCode" value="' + escapeHtml(values.postalCode) + '"></div>' +
+            renderError(state.checkoutError, 'error-button') +
+          '</div>' +
+          '<div class="checkout_buttons">' +
+            '<button type="button" class="btn btn_secondary back btn_medium cart_cancel_link" data-test="cancel" id="cancel" name="cancel">Cancel</button>' +
+            '<input type="submit" class="submit-button btn btn_primary cart_button btn_action" data-test="continue" id="continue" name="continue" value="Continue">' +
+          '</div>' +
+        '</form>' +
+      '</div>'
+    );
+  }
+
+  function submitCheckoutInfo() {
+    var values = {
+      firstName: document.getElementById('first-name').value,
+      lastName: document.getElementById('last-name').value,
+      postalCode: document.getElementById('postal-code').value
+    };
+    var namePattern = /^[\p{L}][\p{L} '.-]*$/u;
+
+    if (!values.firstName) {
+      state.checkoutError = 'Error: First Name is required';
+    } else if (!values.lastName) {
+      state.checkoutError = 'Error: Last Name is required';
+    } else if (!values.postalCode) {
+      state.checkoutError = 'Error: Postal Code is required';
+    } else if (!flags.knownBugs && !namePattern.test(values.firstName)) {
+      state.checkoutError = 'Error: First Name contains invalid characters';
+    } else if (!flags.knownBugs && !namePattern.test(values.lastName)) {
+      state.checkoutError = 'Error: Last Name contains invalid characters';
+    } else {
+      navigate('/checkout-step-two.html');
+      return;
+    }
+
+    renderCheckoutInfo(values);
+  }
+
+  function renderCheckoutOverview() {
+    var itemTotal = getCart().reduce(function (sum, id) { return sum + findProduct(id).price; }, 0);
+    var tax = Math.round(itemTotal * TAX_RATE * 100) / 100;
+    var total = itemTotal + tax;
+
+    root.innerHTML = renderAuthenticatedPage(
+      'Checkout: Overview',
+      '',
+      'checkout_summary_container',
+      '<div class="checkout_summary_container">' +
+        renderCartList(false) +
+        '<div class="summary_info">' +
+          '<div class="summary_info_label" data-test="payment-info-label">Payment Information:</div>' +
+          '<div class="summary_value_label" data-test="payment-info-value">SauceCard #31337</div>' +
+          '<div class="summary_info_label" data-test="shipping-info-label">Shipping Information:</div>' +
+          '<div class="summary_value_label" data-test="shipping-info-value">Free Pony Express Delivery!</div>' +
+          '<div class="summary_info_label" data-test="total-info-label">Price Total</div>' +
+          '<div class="summary_subtotal_label" data-test="subtotal-label">Item total: ' + formatPrice(itemTotal) + '</div>' +
+          '<div class="summary_tax_label" data-test="tax-label">Tax: ' + formatPrice(tax) + '</div>' +
+          '<div class="summary_info_label summary_total_label" data-test="total-label">Total: ' + formatPrice(total) + '</div>' +
+          '<div class="cart_footer">' +
+            '<button class="btn btn_secondary back btn_medium cart_cancel_link" data-test="cancel" id="cancel" name="cancel">Cancel</button>' +
+            '<button class="btn btn_action btn_medium cart_button" data-test="finish" id="finish" name="finish">Finish</button>' +
+          '</div>' +
+        '</div>' +
+      '</div>'
+    );
+  }
+
+  function renderCheckoutComplete() {
+    root.innerHTML = renderAuthenticatedPage(
+      'Checkout: Complete!',
+      '',
+      'checkout_complete_container',
+      '<img alt="Pony Express" class="pony_express" data-test="pony-express" src="/static/media/pony-express.46394a5d.png">' +
+      '<h2 class="complete-header" data-test="complete-header">Thank you for your order!</h2>' +
+      '<div class="complete-text" data-test="complete-text">Your order has been dispatched, and will arrive just as fast as the pony can get there!</div>' +
+      '<button class="btn btn_primary btn_small" data-test="back-to-products" id="back-to-products" name="back-to-products">Back Home</button>'
+    );
+  }
+
+  // ---------------------------------------------------------------------------
+  // Routing and events
+  // ---------------------------------------------------------------------------
+
+  function currentPath() {
+    return window.location.pathname === '/index.html' ? '/' : window.location.pathname;
+  }
+
+  function render() {
+    var path = currentPath();
+
+    if (PROTECTED_ROUTES.indexOf(path) !== -1 && !getSessionUser()) {
+      state.loginError = 'Epic sadface: You can only access \'' + path + '\' when you are logged in.';
+      window.history.replaceState(null, '', '/');
+      renderLogin();
+      return;
+    }
+
+    document.body.className = '';
+    switch (path) {
+      case '/inventory.html':
+        return renderInventory();
+      case '/inventory-item.html':
+        return renderItemDetails();
+      case '/cart.html':
+        return renderCart();
+      case '/checkout-step-one.html':
+        return renderCheckoutInfo();
+      case '/checkout-step-two.html':
+        return renderCheckoutOverview();
+      case '/checkout-complete.html':
+        return renderCheckoutComplete();
+      default:
+        return renderLogin();
+    }
+  }
+
+  function setMenuOpen(open) {
+    state.menuOpen = open;
+    var wrap = root.querySelector('.bm-menu-wrap');
+    var overlay = root.querySelector('.bm-overlay');
+    if (wrap) {
+      wrap.classList.toggle('bm-menu-wrap--open', open);
+      wrap.setAttribute('aria-hidden', open ? 'false' : 'true');
+    }
+    if (overlay) {
+      overlay.classList.toggle('bm-overlay--open', open);
+    }
+  }
+
+  root.addEventListener('submit', function (event) {
+    event.preventDefault();
+    if (event.target.id === 'login-form') {
+      submitLogin();
+    } else if (event.target.id === 'checkout-info-form') {
+      submitCheckoutInfo();
+    }
+  });
+
+  root.addEventListener('change', function (event) {
+    if (event.target.classList.contains('product_sort_container')) {
+      var sortQuirk = quirks().sort;
+      if (sortQuirk === 'alert') {
+        window.alert('Sorting is broken! This error has been reported to Backtrace.');
+      } else if (!sortQuirk) {
+        state.sort = event.target.value;
+      }
+      renderInventory();
+    }
+  });
+
+  root.addEventListener('input', function (event) {
+    if (event.target.id !== 'last-name') {
+      return;
+    }
+    var lastNameQuirk = quirks().lastName;
+    if (lastNameQuirk === 'overwrites-first-name') {
+      document.getElementById('first-name').value = event.target.value;
+      event.target.value = '';
+    } else if (lastNameQuirk === 'ignored') {
+      event.target.value = '';
+    }
+  });
+
+  root.addEventListener('click', function (event) {
+    var target = event.target.closest('button, a');
+    if (!target) {
+      return;
+    }
+
+    var action = target.getAttribute('data-action');
+    if (action === 'add' || action === 'remove') {
+      var id = Number(target.getAttribute('data-id'));
+      var failing = action === 'add' ? quirks().failingAdd : quirks().failingRemove;
+      if (failing && failing.indexOf(id) !== -1) {
+        if (getSessionUser() === 'error_user') {
+          console.error('Failed to ' + action + ' item ' + id + (action === 'add' ? ' to' : ' from') + ' the cart.');
+        }
+        return;
+      }
+      if (action === 'add') {
+        addToCart(id);
+      } else {
+        removeFromCart(id);
+      }
+      render();
+      return;
+    }
+
+    switch (target.id) {
+      case 'react-burger-menu-btn':
+        setMenuOpen(true);
+        break;
+      case 'react-burger-cross-btn':
+        setMenuOpen(false);
+        break;
+      case 'inventory_sidebar_link':
+        event.preventDefault();
+        navigate('/inventory.html');
+        break;
+      case 'logout_sidebar_link':
+        event.preventDefault();
+        endSession();
+        navigate('/');
+        break;
+      case 'reset_sidebar_link':
+        event.preventDefault();
+        setCart([]);
+        render();
+        break;
+      case 'continue-shopping':
+      case 'back-to-products':
+        navigate('/inventory.html');
+        break;
+      case 'checkout':
+        if (!flags.knownBugs && getCart().length === 0) {
+          break;
+        }
+        navigate('/checkout-step-one.html');
+        break;
+      case 'cancel':
+        navigate(currentPath() === '/checkout-step-one.html' ? '/cart.html' : '/inventory.html');
+        break;
+      case 'finish':
+        if (quirks().failingFinish) {
+          console.error('Failed to complete the order.');
+          break;
+        }
+        setCart([]);
+        navigate('/checkout-complete.html');
+        break;
+      default:
+        if (target.classList.contains('error-button')) {
+          state.loginError = '';
+          state.checkoutError = '';
+          target.closest('.error-message-container').className = 'error-message-container';
+          target.closest('.error-message-container').innerHTML = '';
+        }
+    }
+  });
+
+  render();
+})();
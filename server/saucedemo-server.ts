@@ -0,0 +1,192 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { readFileSync } from 'fs';
+import path from 'path';
+
+/**
+ * Offline SauceDemo stand-in server
+ * Serves a local copy of the pages our page objects touch (login, inventory, item details,
+ * cart, the three checkout steps and the burger menu) so the suite can run without internet.
+ *
+ * Like the real application, all rendering happens in the browser: the session lives in the
+ * `session-username` cookie and the cart in the `cart-contents` localStorage entry.
+ *
+ * Usage: npx tsx server/saucedemo-server.ts [--port 3100] [--known-bugs on|off]
+ */
+
+/** Options accepted by the stand-in server */
+export interface SauceDemoServerOptions {
+  /** Port to listen on */
+  port: number;
+  /** Reproduce the known TC-25 (empty cart checkout) and TC-28 (special characters) defects */
+  knownBugs: boolean;
+}
+
+/** Client-side routes rendered by the stand-in application */
+const APP_ROUTES = [
+  '/',
+  '/index.html',
+  '/inventory.html',
+  '/inventory-item.html',
+  '/cart.html',
+  '/checkout-step-one.html',
+  '/checkout-step-two.html',
+  '/checkout-complete.html',
+];
+
+/** Static assets served from server/public */
+const STATIC_FILES: Record<string, { file: string; contentType: string }> = {
+  '/static/js/app.js': { file: 'app.js', contentType: 'application/javascript; charset=utf-8' },
+  '/static/css/main.css': { file: 'styles.css', contentType: 'text/css; charset=utf-8' },
+};
+
+/** Product images known to the application; any other media path is a 404 like the real site */
+const MEDIA_FILES = [
+  'sauce-backpack-1200x1500.0a0b85a3.jpg',
+  'bike-light-1200x1500.37c843b0.jpg',
+  'bolt-shirt-1200x1500.c2599ac5.jpg',
+  'sauce-pullover-1200x1500.51d7ffaf.jpg',
+  'red-onesie-1200x1500.2ec615b2.jpg',
+  'red-tatt-1200x1500.30dadef4.jpg',
+  'sl-404.168b1cce.jpg',
+  'pony-express.46394a5d.png',
+];
+
+const PUBLIC_DIR = path.join(__dirname, 'public');
+
+/**
+ * Parse server options from command line arguments and environment variables
+ * @param argv - Command line arguments (without the node and script entries)
+ * @returns The resolved server options
+ */
+export function parseServerOptions(argv: string[]): SauceDemoServerOptions {
+  const readArg = (name: string): string | undefined => {
+    const index = argv.findIndex(arg => arg === `--${name}` || arg.startsWith(`--${name}=`));
+    if (index === -1) {
+      return undefined;
+    }
+    const arg = argv[index];
+    return arg.includes('=') ? arg.split('=')[1] : argv[index + 1];
+  };
+
+  const port = Number(readArg('port') ?? process.env.SAUCEDEMO_LOCAL_PORT ?? 3100);
+  const knownBugsValue = (readArg('known-bugs') ?? process.env.SAUCEDEMO_KNOWN_BUGS ?? 'on').toLowerCase();
+
+  if (!Number.isInteger(port) || port <= 0) {
+    throw new Error(`Invalid port "${readArg('port')}" for the SauceDemo stand-in server`);
+  }
+
+  return {
+    port,
+    knownBugs: !['off', 'false', '0'].includes(knownBugsValue),
+  };
+}
+
+/**
+ * Build the HTML shell that boots the client-side application
+ * @param options - The server options exposed to the client
+ * @returns The HTML document
+ */
+function renderShell(options: SauceDemoServerOptions): string {
+  const clientFlags = JSON.stringify({ knownBugs: options.knownBugs });
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width,initial-scale=1">
+  <title>Swag Labs</title>
+  <link rel="stylesheet" href="/static/css/main.css">
+</head>
+<body>
+  <noscript>You need to enable JavaScript to run this app.</noscript>
+  <div id="root"></div>
+  <script>window.__SAUCEDEMO_STUB__ = ${clientFlags};</script>
+  <script src="/static/js/app.js"></script>
+</body>
+</html>`;
+}
+
+/**
+ * Build a placeholder product image
+ * @param name - The media file name, used as the image label
+ * @returns An SVG document
+ */
+function renderMedia(name: string): string {
+  const label = name.split('-')[0];
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="240" height="300" viewBox="0 0 240 300">
+  <rect width="240" height="300" fill="#e2231a"/>
+  <text x="120" y="150" font-family="sans-serif" font-size="20" fill="#ffffff" text-anchor="middle">${label}</text>
+</svg>`;
+}
+
+/**
+ * Send a response with the given status, content type and body
+ */
+function send(res: ServerResponse, status: number, contentType: string, body: string | Buffer): void {
+  res.writeHead(status, { 'Content-Type': contentType, 'Cache-Control': 'no-store' });
+  res.end(body);
+}
+
+/**
+ * Create the stand-in server without starting it
+ * @param options - The server options
+ * @returns The HTTP server
+ */
+export function createSauceDemoServer(options: SauceDemoServerOptions): Server {
+  const shell = renderShell(options);
+
+  return createServer((req: IncomingMessage, res: ServerResponse) => {
+    const { pathname } = new URL(req.url ?? '/', `http://localhost:${options.port}`);
+
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      send(res, 405, 'text/plain; charset=utf-8', 'Method Not Allowed');
+      return;
+    }
+
+    if (APP_ROUTES.includes(pathname)) {
+      send(res, 200, 'text/html; charset=utf-8', shell);
+      return;
+    }
+
+    const staticFile = STATIC_FILES[pathname];
+    if (staticFile) {
+      send(res, 200, staticFile.contentType, readFileSync(path.join(PUBLIC_DIR, staticFile.file)));
+      return;
+    }
+
+    const mediaName = pathname.startsWith('/static/media/') ? pathname.slice('/static/media/'.length) : '';
+    if (MEDIA_FILES.includes(mediaName)) {
+      send(res, 200, 'image/svg+xml', renderMedia(mediaName));
+      return;
+    }
+
+    send(res, 404, 'text/plain; charset=utf-8', 'Not Found');
+  });
+}
+
+/**
+ * Start the stand-in server
+ * @param options - The server options
+ * @returns The listening HTTP server
+ */
+export function startSauceDemoServer(options: SauceDemoServerOptions): Promise<Server> {
+  const server = createSauceDemoServer(options);
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, () => resolve(server));
+  });
+}
+
+if (require.main === module) {
+  const options = parseServerOptions(process.argv.slice(2));
+  startSauceDemoServer(options)
+    .then(() => {
+      console.log(
+        `SauceDemo stand-in server listening on http://localhost:${options.port} ` +
+        `(known bugs ${options.knownBugs ? 'on' : 'off'})`
+      );
+    })
+    .catch((error: Error) => {
+      console.error(`Failed to start SauceDemo stand-in server: ${error.message}`);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,77 @@
+import { test, expect } from '../fixtures/test-fixtures';
+import { environment } from '../config/environments';
+import { testData } from '../utils/test-data';
+import { CartPage } from '../pages/CartPage';
+import { CheckoutCompletePage } from '../pages/CheckoutCompletePage';
+import { CheckoutInfoPage } from '../pages/CheckoutInfoPage';
+import { CheckoutOverviewPage } from '../pages/CheckoutOverviewPage';
+import { ProductDetailsPage } from '../pages/ProductDetailsPage';
+import { ProductsPage } from '../pages/ProductsPage';
+
+/**
+ * Accessibility Test Suite
+ * Audits every page of the purchase journey for WCAG 2.1 A and AA violations, scoped to each page
+ * object's own region. Accepted violations are listed in fixtures/a11y-baseline.json.
+ * Accessibility Checks: AX-01
+ */
+test.describe('Accessibility', () => {
+  /**
+   * AX-01: Purchase Journey
+   * Verify that login, inventory, product details, cart, checkout and order confirmation have no new violations
+   */
+  test('AX-01: Should have no new accessibility violations along the purchase journey', async ({
+    page,
+    loginPage,
+    productsPage,
+    productDetailsPage,
+    cartPage,
+    checkoutInfoPage,
+    checkoutOverviewPage,
+    checkoutCompletePage,
+  }) => {
+    const customer = testData.customerInfo.valid;
+
+    await test.step('Login page', async () => {
+      await loginPage.navigate();
+      await loginPage.auditAccessibility();
+      await loginPage.login(environment.credentials.username, environment.credentials.password);
+      await expect(page).toBeOnPage(ProductsPage);
+    });
+
+    await test.step('Products page', async () => {
+      await productsPage.auditAccessibility();
+      await productsPage.clickProductTitle(testData.products.backpack);
+      await expect(page).toBeOnPage(ProductDetailsPage);
+    });
+
+    await test.step('Product details page', async () => {
+      await productDetailsPage.auditAccessibility();
+      await productDetailsPage.addToCart();
+      await productsPage.goToCart();
+      await expect(page).toBeOnPage(CartPage);
+    });
+
+    await test.step('Cart page', async () => {
+      await cartPage.auditAccessibility();
+      await cartPage.proceedToCheckout();
+      await expect(page).toBeOnPage(CheckoutInfoPage);
+    });
+
+    await test.step('Checkout information page', async () => {
+      await checkoutInfoPage.auditAccessibility();
+      await checkoutInfoPage.fillCheckoutInfo(customer.firstName, customer.lastName, customer.postalCode);
+      await checkoutInfoPage.clickContinue();
+      await expect(page).toBeOnPage(CheckoutOverviewPage);
+    });
+
+    await test.step('Checkout overview page', async () => {
+      await checkoutOverviewPage.auditAccessibility();
+      await checkoutOverviewPage.clickFinish();
+      await expect(page).toBeOnPage(CheckoutCompletePage);
+    });
+
+    await test.step('Checkout complete page', async () => {
+      await checkoutCompletePage.auditAccessibility();
+    });
+  });
+});
@@ -0,0 +1,25 @@
+import { test as setup, expect } from '../fixtures/test-fixtures';
+import { loginPersonaNames, personaCredentials, personas, SLOW_LOGIN_TIMEOUT } from '../fixtures/personas';
+import { SAVES_SESSIONS_ANNOTATION } from '../utils/app-state';
+import { authStatePath } from '../utils/auth-state';
+import { ProductsPage } from '../pages/ProductsPage';
+
+/**
+ * Authentication Setup
+ * Logs in once per persona through the login form and saves the session to playwright/.auth,
+ * so the authenticatedPage fixture can start tests directly on the products page.
+ * Runs as the 'setup' project that every browser project depends on.
+ */
+for (const name of loginPersonaNames) {
+  setup(`authenticate as ${name}`, { annotation: { type: SAVES_SESSIONS_ANNOTATION } }, async ({ page, loginPage }) => {
+    const credentials = personaCredentials(name);
+
+    await loginPage.navigate();
+    await loginPage.loginAndWaitForInventory(credentials, personas[name].quirks.slowLogin ? SLOW_LOGIN_TIMEOUT : undefined);
+    await expect(page).toBeOnPage(ProductsPage, {
+      timeout: personas[name].quirks.slowLogin ? SLOW_LOGIN_TIMEOUT : undefined,
+    });
+
+    await page.context().storageState({ path: authStatePath(credentials.username) });
+  });
+}
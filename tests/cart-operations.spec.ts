@@ -1,8 +1,8 @@
-import { test, expect } from '@playwright/test';
-import { LoginPage } from '../pages/LoginPage';
-import { ProductsPage } from '../pages/ProductsPage';
+import { test, expect } from '../fixtures/test-fixtures';
+import { testData } from '../utils/test-data';
+import { catalogProduct } from '../fixtures/catalog';
 import { CartPage } from '../pages/CartPage';
-import testData from '../fixtures/test-data.json';
+import { ProductsPage } from '../pages/ProductsPage';
 
 /**
  * Cart Operations Test Suite
@@ -10,41 +10,26 @@ import testData from '../fixtures/test-data.json';
  * Test Cases: TC-20, TC-21, TC-22, TC-23, TC-30
  */
 test.describe('Cart Operations', () => {
-  let loginPage: LoginPage;
-  let productsPage: ProductsPage;
-  let cartPage: CartPage;
-
-  test.beforeEach(async ({ page }) => {
-    loginPage = new LoginPage(page);
-    productsPage = new ProductsPage(page);
-    cartPage = new CartPage(page);
-  });
-
   /**
    * TC-20: Proceed to Cart
    * Verify that clicking the cart icon opens the cart page with added products displayed
    */
-  test('TC-20: Should open cart page and display added products', async ({ page }) => {
-    // Navigate to login page and authenticate
-    await loginPage.navigate();
-    await loginPage.login(testData.credentials.valid.username, testData.credentials.valid.password);
-    
-    // Verify we're on the products page
-    await expect(page).toHaveURL(/.*inventory\.html/);
+  test('TC-20: Should open cart page and display added products', async ({ authenticatedPage: page, productsPage, cartPage, verifyCart }) => {
+    // Verify we're on the products page after authentication
+    await expect(page).toBeOnPage(ProductsPage);
 
     // Add two products to cart
     await productsPage.addProductToCart(testData.products.backpack);
     await productsPage.addProductToCart(testData.products.bikeLight);
 
     // Verify cart badge shows 2 items
-    const cartCount = await productsPage.getCartBadgeCount();
-    expect(cartCount).toBe(2);
+    await expect(productsPage).toHaveCartCount(2);
 
     // Navigate to cart page
     await productsPage.goToCart();
 
     // Verify we're on the cart page
-    await expect(page).toHaveURL(/.*cart\.html/);
+    await expect(page).toBeOnPage(CartPage);
 
     // Verify both products are displayed in the cart
     const cartItems = await cartPage.getCartItemNames();
@@ -52,27 +37,32 @@ test.describe('Cart Operations', () => {
     expect(cartItems).toContain(testData.products.bikeLight);
     expect(cartItems.length).toBe(2);
 
+    // Verify each row lists its product once at the catalog price
+    for (const productName of [testData.products.backpack, testData.products.bikeLight]) {
+      const row = cartPage.getCartItem(productName);
+      expect(await row.getQuantity(), `${productName} quantity`).toBe(1);
+      expect((await row.getPrice()).toString(), `${productName} price`).toBe(catalogProduct(productName).price.toString());
+    }
+
     // Verify cart badge still shows 2
-    const cartBadgeCount = await cartPage.getCartItemCount();
-    expect(cartBadgeCount).toBe(2);
+    await expect(cartPage).toHaveCartCount(2);
+
+    // Verify badge, buttons and listed items match the expected cart
+    await verifyCart();
   });
 
   /**
    * TC-21: Remove Item from Cart Page
    * Verify that removing an item from the cart page updates the cart correctly
    */
-  test('TC-21: Should remove item from cart page and update badge', async ({ page }) => {
-    // Navigate to login page and authenticate
-    await loginPage.navigate();
-    await loginPage.login(testData.credentials.valid.username, testData.credentials.valid.password);
-    
+  test('TC-21: Should remove item from cart page and update badge', async ({ authenticatedPage: page, productsPage, cartPage, verifyCart }) => {
     // Add two products to cart
     await productsPage.addProductToCart(testData.products.backpack);
     await productsPage.addProductToCart(testData.products.bikeLight);
 
     // Navigate to cart page
     await productsPage.goToCart();
-    await expect(page).toHaveURL(/.*cart\.html/);
+    await expect(page).toBeOnPage(CartPage);
 
     // Verify both items are in cart
     let cartItems = await cartPage.getCartItemNames();
@@ -88,26 +78,24 @@ test.describe('Cart Operations', () => {
     expect(cartItems).not.toContain(testData.products.backpack);
 
     // Verify cart badge updates to 1
-    const cartBadgeCount = await cartPage.getCartItemCount();
-    expect(cartBadgeCount).toBe(1);
+    await expect(cartPage).toHaveCartCount(1);
+
+    // Verify badge, buttons and listed items match the expected cart
+    await verifyCart();
   });
 
   /**
    * TC-22: Continue Shopping with Items
    * Verify that clicking "Continue Shopping" returns to products page with cart contents preserved
    */
-  test('TC-22: Should continue shopping and preserve cart contents', async ({ page }) => {
-    // Navigate to login page and authenticate
-    await loginPage.navigate();
-    await loginPage.login(testData.credentials.valid.username, testData.credentials.valid.password);
-    
+  test('TC-22: Should continue shopping and preserve cart contents', async ({ authenticatedPage: page, productsPage, cartPage, verifyCart }) => {
     // Add products to cart
     await productsPage.addProductToCart(testData.products.backpack);
     await productsPage.addProductToCart(testData.products.bikeLight);
 
     // Navigate to cart page
     await productsPage.goToCart();
-    await expect(page).toHaveURL(/.*cart\.html/);
+    await expect(page).toBeOnPage(CartPage);
 
     // Verify items are in cart
     const cartItems = await cartPage.getCartItemNames();
@@ -117,17 +105,17 @@ test.describe('Cart Operations', () => {
     await cartPage.continueShopping();
 
     // Verify we're back on the products page
-    await expect(page).toHaveURL(/.*inventory\.html/);
+    await expect(page).toBeOnPage(ProductsPage);
 
     // Verify cart badge still shows 2 items
-    const cartCount = await productsPage.getCartBadgeCount();
-    expect(cartCount).toBe(2);
+    await expect(productsPage).toHaveCartCount(2);
 
     // Verify products still show as added (Remove button visible)
-    const isBackpackAdded = await productsPage.isProductAdded(testData.products.backpack);
-    const isBikeLightAdded = await productsPage.isProductAdded(testData.products.bikeLight);
-    expect(isBackpackAdded).toBe(true);
-    expect(isBikeLightAdded).toBe(true);
+    await expect(productsPage).toShowProductAsAdded(testData.products.backpack);
+    await expect(productsPage).toShowProductAsAdded(testData.products.bikeLight);
+
+    // Verify badge, buttons and listed items match the expected cart
+    await verifyCart();
   });
 
   /**
@@ -135,17 +123,13 @@ test.describe('Cart Operations', () => {
    * Verify that after removing all items and clicking "Continue Shopping", 
    * the products page shows no items in cart
    */
-  test('TC-23: Should continue shopping after removing all items', async ({ page }) => {
-    // Navigate to login page and authenticate
-    await loginPage.navigate();
-    await loginPage.login(testData.credentials.valid.username, testData.credentials.valid.password);
-    
+  test('TC-23: Should continue shopping after removing all items', async ({ authenticatedPage: page, productsPage, cartPage, verifyCart }) => {
     // Add one product to cart
     await productsPage.addProductToCart(testData.products.backpack);
 
     // Navigate to cart page
     await productsPage.goToCart();
-    await expect(page).toHaveURL(/.*cart\.html/);
+    await expect(page).toBeOnPage(CartPage);
 
     // Verify item is in cart
     let cartItems = await cartPage.getCartItemNames();
@@ -159,29 +143,29 @@ test.describe('Cart Operations', () => {
     expect(cartItems.length).toBe(0);
 
     // Verify cart badge is not visible (count is 0)
-    const cartBadgeCount = await cartPage.getCartItemCount();
-    expect(cartBadgeCount).toBe(0);
+    await expect(cartPage).toHaveCartCount(0);
 
     // Click "Continue Shopping"
     await cartPage.continueShopping();
 
     // Verify we're back on the products page
-    await expect(page).toHaveURL(/.*inventory\.html/);
+    await expect(page).toBeOnPage(ProductsPage);
 
     // Verify cart badge is still not visible
-    const cartCount = await productsPage.getCartBadgeCount();
-    expect(cartCount).toBe(0);
+    await expect(productsPage).toHaveCartCount(0);
 
     // Verify product shows as not added (Add to Cart button visible)
-    const isAdded = await productsPage.isProductAdded(testData.products.backpack);
-    expect(isAdded).toBe(false);
+    await expect(productsPage).not.toShowProductAsAdded(testData.products.backpack);
+
+    // Verify badge, buttons and listed items match the expected cart
+    await verifyCart();
   });
 
   /**
    * TC-30: Access Cart Without Login
    * Verify that attempting to access the cart page without authentication redirects to login
    */
-  test('TC-30: Should redirect to login when accessing cart without authentication', async ({ page }) => {
+  test('TC-30: Should redirect to login when accessing cart without authentication', async ({ page, loginPage, cartPage }) => {
     // Attempt to navigate directly to cart page without logging in
     await cartPage.navigateToCart();
 
@@ -0,0 +1,69 @@
+import { test, expect } from '../fixtures/test-fixtures';
+import { deviceFor } from '../config/browsers';
+import { environment } from '../config/environments';
+import { explore } from '../utils/explorer';
+import { applyHarMode, assertNoMissingRequests, harServiceWorkers } from '../utils/har';
+import { parseSeedList } from '../utils/random';
+
+/**
+ * Model-Based Explorer Test Suite
+ * Walks the SauceDemo page graph (utils/app-model.ts) with seeded random actions and checks invariants
+ * after every step; a failing walk is shrunk to a minimal reproduction script
+ * Explorer Checks: EX-01
+ *
+ * EXPLORER_SEEDS: comma-separated seeds to run, or "random" for a new seed (default: 1,2,3); playwright.config.ts
+ * replaces "random" with the seed it picks, so the workers see the same seed
+ * EXPLORER_STEPS: number of steps per walk (default: 30)
+ */
+const seeds = parseSeedList(process.env.EXPLORER_SEEDS ?? '1,2,3');
+const walkLength = Number(process.env.EXPLORER_STEPS ?? 30);
+
+test.describe('Model-Based Explorer', () => {
+  for (const seed of seeds) {
+    /**
+     * EX-01: Random Walk
+     * Verify that the page, login redirects and cart state stay consistent along a random walk
+     */
+    test(`EX-01: Should keep invariants along a random walk (seed ${seed})`, async ({ browser }, testInfo) => {
+      // Replays during shrinking take extra time
+      test.slow();
+
+      // Walks run in their own contexts, so HAR recording and replay are applied to each of them
+      const missingRequests: string[][] = [];
+      let contexts = 0;
+
+      const result = await explore({
+        seed,
+        steps: walkLength,
+        newPage: async () => {
+          // The same device, base URL and service worker setting as the contexts of the other specs
+          const context = await browser.newContext({
+            ...deviceFor(testInfo.project.name),
+            baseURL: environment.baseURL,
+            serviceWorkers: harServiceWorkers,
+          });
+          context.setDefaultTimeout(environment.timeouts.action);
+          context.setDefaultNavigationTimeout(environment.timeouts.navigation);
+          missingRequests.push(await applyHarMode(context, testInfo, contexts++));
+          return await context.newPage();
+        },
+      });
+      assertNoMissingRequests(testInfo.file, missingRequests.flat());
+
+      await testInfo.attach('walk.json', {
+        body: JSON.stringify(result.steps, null, 2),
+        contentType: 'application/json',
+      });
+
+      if (result.failure) {
+        await testInfo.attach('reproduction.spec.ts', { body: result.failure.script, contentType: 'text/plain' });
+      }
+
+      // Verify the walk kept every invariant
+      expect(
+        result.failure?.error,
+        `Seed ${seed} broke an invariant. Minimal reproduction:\n${result.failure?.script}\n`
+      ).toBeUndefined();
+    });
+  }
+});
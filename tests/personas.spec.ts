@@ -0,0 +1,81 @@
+import { test, expect } from '../fixtures/test-fixtures';
+import { testData } from '../utils/test-data';
+import {
+  loginPersonaNames,
+  personaCredentials,
+  personaNames,
+  SLOW_LOGIN_TIMEOUT,
+} from '../fixtures/personas';
+import { runForPersonas } from '../utils/persona-matrix';
+import { CheckoutCompletePage } from '../pages/CheckoutCompletePage';
+import { ProductsPage } from '../pages/ProductsPage';
+
+/**
+ * Persona Test Suite
+ * Tests the behavior each SauceDemo account is declared to have in fixtures/personas.ts
+ * Persona Checks: PC-01, PC-02, PC-03
+ */
+runForPersonas(personaNames, 'Persona Login', (persona) => {
+  /**
+   * PC-01: Persona Login
+   * Verify that the persona either reaches the products page or sees its declared login error
+   */
+  test('PC-01: Should log in or display the persona login error', async ({ page, loginPage }) => {
+    const credentials = personaCredentials(persona.name);
+
+    // Log in through the login form
+    await loginPage.navigate();
+
+    if (persona.loginError) {
+      await loginPage.login(credentials.username, credentials.password);
+
+      // Verify the declared login error is displayed and the user stays on the login page
+      expect(await loginPage.isErrorDisplayed()).toBe(true);
+      expect(await loginPage.getErrorMessage()).toBe(persona.loginError);
+      await expect(page).not.toBeOnPage(ProductsPage);
+    } else {
+      // Wait for the product list, allowing extra time for slow logins; the wait is timed against the login budget
+      const timeout = persona.quirks.slowLogin ? SLOW_LOGIN_TIMEOUT : undefined;
+      await loginPage.loginAndWaitForInventory(credentials, timeout);
+
+      // Verify the user reaches the products page
+      await expect(page).toBeOnPage(ProductsPage, { timeout });
+    }
+  });
+});
+
+runForPersonas(loginPersonaNames, 'Persona Shopping', () => {
+  /**
+   * PC-02: Product Images
+   * Verify that every product shows its own image
+   */
+  test('PC-02: Should display a distinct image for every product', async ({ authenticatedPage, productsPage }) => {
+    await expect(authenticatedPage).toBeOnPage(ProductsPage);
+
+    // Verify there is one image per product and no two products share an image
+    const imageSources = await productsPage.getProductImageSources();
+    expect(imageSources.length).toBe(Object.keys(testData.products).length);
+    expect(new Set(imageSources).size).toBe(imageSources.length);
+
+    // Verify no product falls back to the placeholder image
+    for (const source of imageSources) {
+      expect(source).not.toContain('sl-404');
+    }
+  });
+
+  /**
+   * PC-03: Checkout
+   * Verify that the persona can buy a product with valid customer information
+   */
+  test('PC-03: Should complete checkout with valid customer information', async ({ authenticatedPage, flows }) => {
+    await expect(authenticatedPage).toBeOnPage(ProductsPage);
+
+    // Buy a product with valid customer information
+    const receipt = await flows.purchase({ products: [testData.products.backpack] });
+
+    // Verify the order listed the product and was confirmed
+    expect(receipt.items.map(item => item.name)).toEqual([testData.products.backpack]);
+    await expect(authenticatedPage).toBeOnPage(CheckoutCompletePage);
+    expect(receipt.confirmationHeader).toContain('Thank you for your order');
+  });
+});
@@ -0,0 +1,35 @@
+import { test, expect } from '@playwright/test';
+import { describeSessionChanges } from '../../utils/app-state';
+
+/**
+ * Application State Unit Tests
+ * Checks the state leak check of the context fixture without a browser
+ * Unit Checks: UT-17
+ */
+test.describe('Application State', () => {
+  /**
+   * UT-17: Saved Session Leaks
+   * Verify that every saved session a test added, changed or deleted is reported
+   */
+  test('UT-17: Should report saved sessions a test changed', () => {
+    const before = new Map([
+      ['standard_user', '{"cookies":[1]}'],
+      ['problem_user', '{"cookies":[2]}'],
+    ]);
+
+    expect(describeSessionChanges(before, new Map(before))).toEqual([]);
+    expect(
+      describeSessionChanges(
+        before,
+        new Map([
+          ['standard_user', '{"cookies":[3]}'],
+          ['visual_user', '{"cookies":[4]}'],
+        ])
+      )
+    ).toEqual([
+      'changed the saved session of standard_user',
+      'saved a session for visual_user',
+      'deleted the saved session of problem_user',
+    ]);
+  });
+});
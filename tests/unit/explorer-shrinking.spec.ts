@@ -0,0 +1,68 @@
+import { test, expect } from '@playwright/test';
+import { Step } from '../../utils/app-model';
+import { isValidWalk, shrinkWalk, WalkFailure } from '../../utils/explorer';
+import { testData } from '../../utils/test-data';
+
+/**
+ * Explorer Shrinking Unit Tests
+ * Checks that a failing walk is shrunk to a minimal failing walk, replaying it in memory instead of a browser
+ * Unit Checks: UT-10, UT-11
+ */
+test.describe('Explorer Shrinking', () => {
+  const { backpack, bikeLight, onesie } = testData.products;
+
+  const walk: Step[] = [
+    { action: 'login' },
+    { action: 'addProduct', arg: backpack },
+    { action: 'sort', arg: testData.sortOptions.priceHighLow },
+    { action: 'addProduct', arg: bikeLight },
+    { action: 'openDetails', arg: onesie },
+    { action: 'backToProducts' },
+    { action: 'addProduct', arg: onesie },
+    { action: 'openCart' },
+  ];
+
+  /** Pretends the cart page breaks when the bike light is in the cart */
+  const failsWithBikeLightInCart = async (steps: Step[]): Promise<WalkFailure> => {
+    const added = steps.findIndex(step => step.action === 'addProduct' && step.arg === bikeLight);
+    const index = steps.findIndex((step, i) => i > added && step.action === 'openCart');
+    return added >= 0 && index >= 0 ? { index, error: `cart broke after ${steps.length} steps` } : undefined;
+  };
+
+  /**
+   * UT-10: Minimal Failing Walk
+   * Verify that shrinking removes every step the failure does not need
+   */
+  test('UT-10: Should shrink a failing walk to the steps the failure needs', async () => {
+    expect(isValidWalk(walk)).toBe(true);
+
+    const shrunk = await shrinkWalk(walk, 'cart broke', failsWithBikeLightInCart, 30);
+
+    expect(shrunk.steps).toEqual([
+      { action: 'login' },
+      { action: 'addProduct', arg: bikeLight },
+      { action: 'openCart' },
+    ]);
+    expect(shrunk.error).toBe('cart broke after 3 steps');
+    expect(isValidWalk(shrunk.steps)).toBe(true);
+  });
+
+  /**
+   * UT-11: Replay Budget
+   * Verify that shrinking never replays invalid walks and stops at its replay budget
+   */
+  test('UT-11: Should only replay valid walks, within the budget', async () => {
+    const replayed: Step[][] = [];
+    const replay = async (steps: Step[]) => {
+      replayed.push(steps);
+      return await failsWithBikeLightInCart(steps);
+    };
+
+    const shrunk = await shrinkWalk(walk, 'cart broke', replay, 3);
+
+    expect(replayed).toHaveLength(3);
+    expect(replayed.every(isValidWalk)).toBe(true);
+    expect(shrunk.steps.length).toBeLessThan(walk.length);
+    expect(await failsWithBikeLightInCart(shrunk.steps)).toBeDefined();
+  });
+});
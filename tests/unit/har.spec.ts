@@ -0,0 +1,70 @@
+import { test, expect } from '@playwright/test';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { mergeHarFragments, parseHarMode } from '../../utils/har';
+
+/**
+ * HAR Merge Unit Tests
+ * Checks that recorded traffic is merged into one archive per spec, on disk but without a browser
+ * Unit Checks: UT-12, UT-13
+ */
+test.describe('HAR Merge', () => {
+  const entry = (method: string, url: string, body = '') => ({ request: { method, url }, response: { body } });
+
+  /** Write a recorded fragment the way recordHar() lays them out */
+  const writeFragment = (fragmentDir: string, spec: string, file: string, entries: unknown[]) => {
+    mkdirSync(path.join(fragmentDir, spec), { recursive: true });
+    writeFileSync(
+      path.join(fragmentDir, spec, file),
+      JSON.stringify({ log: { version: '1.2', creator: { name: 'Playwright' }, entries } })
+    );
+  };
+
+  /**
+   * UT-12: Deduplicate Entries
+   * Verify that each method and URL is kept once, first recording first, and ignored URLs are dropped
+   */
+  test('UT-12: Should merge fragments into one archive per spec without duplicates', () => {
+    const fragmentDir = test.info().outputPath('fragments');
+    const harDir = test.info().outputPath('har');
+    const baseURL = 'https://www.saucedemo.com';
+
+    writeFragment(fragmentDir, 'login.spec', 'a-0-0-0.har', [
+      entry('GET', `${baseURL}/`, 'first'),
+      entry('GET', `${baseURL}/static/js/main.js`),
+      entry('POST', 'https://events.backtrace.io/api/summed-events'),
+    ]);
+    writeFragment(fragmentDir, 'login.spec', 'b-0-0-0.har', [
+      entry('GET', `${baseURL}/`, 'second'),
+      entry('POST', `${baseURL}/`),
+      entry('GET', `${baseURL}/inventory.html`),
+    ]);
+    writeFragment(fragmentDir, 'cart-operations.spec', 'c-0-0-0.har', [entry('GET', `${baseURL}/cart.html`)]);
+
+    const written = mergeHarFragments(fragmentDir, harDir);
+
+    expect(written.map(file => path.basename(file)).sort()).toEqual(['cart-operations.spec.har', 'login.spec.har']);
+    const archive = JSON.parse(readFileSync(path.join(harDir, 'login.spec.har'), 'utf-8'));
+    expect(archive.log.entries.map((e: ReturnType<typeof entry>) => `${e.request.method} ${e.request.url}`)).toEqual([
+      `GET ${baseURL}/`,
+      `GET ${baseURL}/static/js/main.js`,
+      `POST ${baseURL}/`,
+      `GET ${baseURL}/inventory.html`,
+    ]);
+    expect(archive.log.entries[0].response.body).toBe('first');
+    expect(archive.log.creator).toEqual({ name: 'Playwright' });
+    expect(existsSync(fragmentDir)).toBe(false);
+  });
+
+  /**
+   * UT-13: Nothing Recorded and HAR Modes
+   * Verify that a run without fragments writes nothing and HAR_MODE values are checked
+   */
+  test('UT-13: Should write nothing without fragments and reject unknown HAR modes', () => {
+    expect(mergeHarFragments(test.info().outputPath('none'), test.info().outputPath('har'))).toEqual([]);
+
+    expect(parseHarMode(undefined)).toBe('off');
+    expect(parseHarMode('replay')).toBe('replay');
+    expect(() => parseHarMode('playback')).toThrow('Unknown HAR_MODE "playback". Use record, replay or off.');
+  });
+});
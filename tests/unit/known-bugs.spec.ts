@@ -0,0 +1,32 @@
+import { test, expect } from '@playwright/test';
+import knownBugsData from '../../fixtures/known-bugs.json';
+import { validateKnownBugs } from '../../utils/known-bugs';
+
+/**
+ * Known Bugs Unit Tests
+ * Checks the validation of fixtures/known-bugs.json without a browser
+ * Unit Checks: UT-18
+ */
+test.describe('Known Bug Registry', () => {
+  /**
+   * UT-18: Reject an Invalid Bug
+   * Verify that a bug with an unknown status, missing text or stray fields is reported field by field
+   */
+  test('UT-18: Should report every invalid field of a registered bug', () => {
+    const bug = { ...knownBugsData['BUG-001'], status: 'closed', impact: undefined, severity: 'high' };
+
+    let message = '';
+    try {
+      validateKnownBugs({ ...knownBugsData, 'BUG-009': bug });
+    } catch (error) {
+      message = (error as Error).message;
+    }
+
+    expect(message).toContain('Invalid known bugs in fixtures/known-bugs.json:');
+    expect(message).toContain('BUG-009.status must be one of open, fixed, got "closed"');
+    expect(message).toContain('BUG-009.impact must be a string, got undefined');
+    expect(message).toContain('BUG-009.severity is not a known field');
+    expect(message).not.toContain('BUG-001');
+    expect(validateKnownBugs(knownBugsData)).toEqual(knownBugsData);
+  });
+});
@@ -0,0 +1,52 @@
+import { test, expect } from '@playwright/test';
+import { Money } from '../../utils/money';
+
+/**
+ * Money Unit Tests
+ * Checks parsing, formatting and arithmetic of Money without a browser
+ * Unit Checks: UT-01, UT-02, UT-03
+ */
+test.describe('Money', () => {
+  /**
+   * UT-01: Parse Displayed Amounts
+   * Verify that the last dollar amount of a text is parsed to cents
+   */
+  test('UT-01: Should parse the dollar amounts SauceDemo displays', () => {
+    expect(Money.parse('$29.99').cents).toBe(2999);
+    expect(Money.parse('Item total: $39.98').cents).toBe(3998);
+    expect(Money.parse('Tax: $3.2').cents).toBe(320);
+    expect(Money.parse('$ 1,049.00').cents).toBe(104900);
+    expect(Money.parse('-$7.99').cents).toBe(-799);
+    expect(Money.parse('was $10.00, now $8.00').cents).toBe(800);
+
+    expect(() => Money.parse('Free')).toThrow('No dollar amount found in "Free"');
+  });
+
+  /**
+   * UT-02: Format Round-Trip
+   * Verify that formatting an amount and parsing it back gives the same amount
+   */
+  test('UT-02: Should round-trip amounts through toString and parse', () => {
+    for (const cents of [0, 1, 9, 10, 99, 100, 799, 2999, 104900, -799]) {
+      const money = Money.fromCents(cents);
+      expect(Money.parse(money.toString()).cents, money.toString()).toBe(cents);
+    }
+    expect(Money.fromCents(320).toString()).toBe('$3.20');
+    expect(Money.fromCents(-5).toString()).toBe('-$0.05');
+  });
+
+  /**
+   * UT-03: Exact Arithmetic
+   * Verify that sums stay exact in cents where dollars in floating point would drift
+   */
+  test('UT-03: Should add, subtract and compare in whole cents', () => {
+    const total = Money.sum([Money.fromDollars(0.1), Money.fromDollars(0.2)]);
+    expect(total.equals(Money.fromDollars(0.3))).toBe(true);
+    expect(Money.fromCents(2999).add(Money.fromCents(999)).toString()).toBe('$39.98');
+    expect(Money.fromCents(4318).subtract(Money.fromCents(3998)).cents).toBe(320);
+    expect(Money.fromCents(999).compare(Money.fromCents(2999))).toBeLessThan(0);
+    expect(Money.sum([]).cents).toBe(0);
+
+    expect(() => Money.fromCents(1.5)).toThrow('Money must be a whole number of cents, got 1.5');
+  });
+});
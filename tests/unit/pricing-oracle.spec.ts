@@ -0,0 +1,58 @@
+import { test, expect } from '@playwright/test';
+import { CatalogProduct, catalogProduct } from '../../fixtures/catalog';
+import { Money } from '../../utils/money';
+import { calculateTax, quoteOrder } from '../../utils/pricing-oracle';
+import { testData } from '../../utils/test-data';
+
+/**
+ * Pricing Oracle Unit Tests
+ * Checks the expected order amounts and tax rounding without a browser
+ * Unit Checks: UT-04, UT-05, UT-06
+ */
+test.describe('Pricing Oracle', () => {
+  const { backpack, bikeLight, fleeceJacket } = testData.products;
+
+  /** A catalog of one product at a price, to hit a rounding boundary */
+  const pricedAt = (cents: number): CatalogProduct[] => [{ ...catalogProduct(backpack), price: Money.fromCents(cents) }];
+
+  /**
+   * UT-04: Quote an Order
+   * Verify the item prices, item total, tax and total SauceDemo shows for a known order
+   */
+  test('UT-04: Should quote the amounts SauceDemo shows for backpack and bike light', () => {
+    const quote = quoteOrder([backpack, bikeLight]);
+
+    expect(quote.itemPrices.map(price => price.toString())).toEqual(['$29.99', '$9.99']);
+    expect(quote.itemTotal.toString()).toBe('$39.98');
+    expect(quote.tax.toString()).toBe('$3.20');
+    expect(quote.total.toString()).toBe('$43.18');
+  });
+
+  /**
+   * UT-05: Tax Rounding
+   * Verify that 8% tax rounds half-up to the cent by default and can be rounded down
+   */
+  test('UT-05: Should round tax to the cent by the tax rule', () => {
+    // 8% of $49.99 is $3.9992
+    expect(quoteOrder([fleeceJacket]).tax.toString()).toBe('$4.00');
+
+    // 8% of $0.07 is 0.56 cents, of $0.06 is 0.48 cents
+    expect(quoteOrder([backpack], { products: pricedAt(7) }).tax.cents).toBe(1);
+    expect(quoteOrder([backpack], { products: pricedAt(6) }).tax.cents).toBe(0);
+    expect(calculateTax(Money.fromCents(7), { rateBasisPoints: 800, rounding: 'down' }).cents).toBe(0);
+
+    // 12.5% of $0.04 is exactly half a cent
+    expect(calculateTax(Money.fromCents(4), { rateBasisPoints: 1250, rounding: 'half-up' }).cents).toBe(1);
+  });
+
+  /**
+   * UT-06: Repeated and Unknown Products
+   * Verify that a product listed twice is priced twice and an unknown product is rejected
+   */
+  test('UT-06: Should price repeats and reject products outside the catalog', () => {
+    expect(quoteOrder([bikeLight, bikeLight]).itemTotal.toString()).toBe('$19.98');
+    expect(quoteOrder([]).total.cents).toBe(0);
+
+    expect(() => quoteOrder(['Sauce Labs Umbrella'])).toThrow('Cannot price "Sauce Labs Umbrella": it is not in the catalog');
+  });
+});
@@ -0,0 +1,55 @@
+import { test, expect } from '@playwright/test';
+import { generateWalk, isValidWalk } from '../../utils/explorer';
+import { parseSeedList, SeededRandom } from '../../utils/random';
+import { TestDataFactory } from '../../utils/test-data-factory';
+
+/**
+ * Seeded Randomness Unit Tests
+ * Checks that seeds repeat runs exactly, without a browser
+ * Unit Checks: UT-07, UT-08, UT-09
+ */
+test.describe('Seeded Randomness', () => {
+  const sequence = (seed: number, length = 20) => {
+    const random = new SeededRandom(seed);
+    return Array.from({ length }, () => random.next());
+  };
+
+  /**
+   * UT-07: Same Seed, Same Sequence
+   * Verify that a seed always produces the same numbers and different seeds do not
+   */
+  test('UT-07: Should repeat the sequence of a seed', () => {
+    expect(sequence(42)).toEqual(sequence(42));
+    expect(sequence(42)).not.toEqual(sequence(43));
+    expect(sequence(2 ** 32 + 42)).toEqual(sequence(42));
+
+    expect(sequence(7, 1000).every(value => value >= 0 && value < 1)).toBe(true);
+  });
+
+  /**
+   * UT-08: Seeded Walks and Data
+   * Verify that explorer walks and generated test data repeat for their seed
+   */
+  test('UT-08: Should generate the same walk and data for a seed', () => {
+    const walk = generateWalk(new SeededRandom(1337), 30);
+    expect(generateWalk(new SeededRandom(1337), 30)).toEqual(walk);
+    expect(isValidWalk(walk)).toBe(true);
+
+    const customer = (seed: number) => new TestDataFactory(seed).customer().build();
+    expect(customer(99)).toEqual(customer(99));
+  });
+
+  /**
+   * UT-09: Seed Lists
+   * Verify that EXPLORER_SEEDS style lists are parsed and "random" becomes a concrete seed
+   */
+  test('UT-09: Should parse seed lists', () => {
+    expect(parseSeedList('1, 2,3,')).toEqual([1, 2, 3]);
+
+    const [randomSeed] = parseSeedList('random');
+    expect(Number.isInteger(randomSeed)).toBe(true);
+    expect(parseSeedList(String(randomSeed))).toEqual([randomSeed]);
+
+    expect(() => parseSeedList('1,two')).toThrow('Seeds must be whole numbers or "random", got "two"');
+  });
+});
@@ -0,0 +1,65 @@
+import { test, expect } from '@playwright/test';
+import testDataJson from '../../fixtures/test-data.json';
+import { validateTestData } from '../../utils/test-data';
+
+/**
+ * Test Data Unit Tests
+ * Checks the schema validation of fixtures/test-data.json and environment overrides without a browser
+ * Unit Checks: UT-14, UT-15, UT-16
+ */
+test.describe('Test Data Schema', () => {
+  const overrideFile = 'fixtures/test-data.staging.json';
+
+  /**
+   * UT-14: Apply an Override
+   * Verify that an override changes only the fields it lists
+   */
+  test('UT-14: Should merge a valid override into the test data', () => {
+    const data = validateTestData(testDataJson, { customerInfo: { valid: { firstName: 'Ada' } } }, overrideFile);
+
+    expect(data.customerInfo.valid).toEqual({ ...testDataJson.customerInfo.valid, firstName: 'Ada' });
+    expect(data.products).toEqual(testDataJson.products);
+    expect(data.sortOptions).toEqual(testDataJson.sortOptions);
+  });
+
+  /**
+   * UT-15: Reject a Bad Override
+   * Verify that every field of an override that breaks the schema is reported with the file name
+   */
+  test('UT-15: Should report every invalid field of an override', () => {
+    const override = {
+      products: { backpack: 'Sauce Labs Umbrella', umbrella: 'Sauce Labs Umbrella' },
+      sortOptions: { nameAZ: 'a-z' },
+      customerInfo: { valid: { postalCode: 12345 } },
+    };
+
+    let message = '';
+    try {
+      validateTestData(testDataJson, override, overrideFile);
+    } catch (error) {
+      message = (error as Error).message;
+    }
+
+    expect(message).toContain(`Invalid test data in ${overrideFile}:`);
+    expect(message).toContain('products.umbrella is not a known field (expected one of: backpack, bikeLight,');
+    expect(message).toContain('products.backpack must be a catalog product name (Sauce Labs Backpack,');
+    expect(message).toContain('got "Sauce Labs Umbrella"');
+    expect(message).toContain('sortOptions.nameAZ must be a sort option (az, za, lohi, hilo), got "a-z"');
+    expect(message).toContain('customerInfo.valid.postalCode must be a string, got 12345');
+    expect(message).not.toContain('fixtures/test-data.json');
+  });
+
+  /**
+   * UT-16: Reject Incomplete Test Data
+   * Verify that the test data file itself must have every field, unlike an override
+   */
+  test('UT-16: Should report fields missing from the test data file', () => {
+    const { sortOptions: _sortOptions, ...withoutSortOptions } = testDataJson;
+
+    expect(() => validateTestData(withoutSortOptions)).toThrow(
+      'Invalid test data in fixtures/test-data.json:\n  - sortOptions is missing'
+    );
+    expect(() => validateTestData([])).toThrow('the file must be an object, got []');
+    expect(() => validateTestData(testDataJson, {})).not.toThrow();
+  });
+});
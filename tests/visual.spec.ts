@@ -0,0 +1,149 @@
+import { test, expect } from '../fixtures/test-fixtures';
+import { testData } from '../utils/test-data';
+import { loginPersonaNames, PersonaName } from '../fixtures/personas';
+import { locators, resolveLocator } from '../pages/locators';
+import { runForPersonas } from '../utils/persona-matrix';
+import { CartPage } from '../pages/CartPage';
+import { CheckoutCompletePage } from '../pages/CheckoutCompletePage';
+import { CheckoutInfoPage } from '../pages/CheckoutInfoPage';
+import { CheckoutOverviewPage } from '../pages/CheckoutOverviewPage';
+import { ProductDetailsPage } from '../pages/ProductDetailsPage';
+import { ProductsPage } from '../pages/ProductsPage';
+
+/** Persona the baselines are captured as; every other persona is compared against its screenshots */
+const BASELINE_PERSONA: PersonaName = 'standard_user';
+
+/**
+ * Visual Regression Test Suite
+ * Compares each page with its baseline screenshot, stored per environment and browser project.
+ * Personas with layout or image quirks (visual_user, problem_user) show up as expected failures.
+ * Baselines are updated with `npm run test:visual:update`.
+ * Visual Checks: VR-01, VR-02, VR-03, VR-04, VR-05, VR-06, VR-07
+ */
+test.describe('Visual Regression', () => {
+  /**
+   * VR-01: Login Page
+   * Verify that the login page matches its baseline
+   */
+  test('VR-01: Should match the login page baseline', async ({ page, loginPage }) => {
+    await loginPage.navigate();
+    await expect(resolveLocator(page, locators.login.loginButton)).toBeVisible();
+
+    await loginPage.expectToMatchBaseline('login');
+  });
+});
+
+runForPersonas(loginPersonaNames, 'Visual Regression', (persona) => {
+  // Only the baseline persona may write baselines; the others would record their quirks as expected.
+  // Under the default 'missing' mode they compare against existing baselines and fail when there is none.
+  const compareOnly = persona.name !== BASELINE_PERSONA;
+  if (compareOnly) {
+    test.beforeEach(async ({}, testInfo) => {
+      const mode = testInfo.config.updateSnapshots;
+      test.skip(mode === 'all' || mode === 'changed', `Baselines are captured as ${BASELINE_PERSONA}`);
+    });
+  }
+
+  /**
+   * VR-02: Products Page
+   * Verify that the products page matches its baseline
+   */
+  test('VR-02: Should match the products page baseline', async ({ authenticatedPage: page, productsPage }) => {
+    await expect(page).toBeOnPage(ProductsPage);
+
+    await productsPage.expectToMatchBaseline('products', { compareOnly });
+  });
+
+  /**
+   * VR-03: Product Details Page
+   * Verify that the product details page matches its baseline
+   */
+  test('VR-03: Should match the product details page baseline', async ({
+    authenticatedPage: page,
+    productsPage,
+    productDetailsPage,
+  }) => {
+    await productsPage.clickProductTitle(testData.products.backpack);
+    await expect(page).toBeOnPage(ProductDetailsPage);
+
+    await productDetailsPage.expectToMatchBaseline('product-details', { compareOnly });
+  });
+
+  /**
+   * VR-04: Cart Page
+   * Verify that the cart page with one product matches its baseline
+   */
+  test('VR-04: Should match the cart page baseline', async ({ authenticatedPage: page, productsPage, cartPage }) => {
+    await productsPage.addProductToCart(testData.products.backpack);
+    await productsPage.goToCart();
+    await expect(page).toBeOnPage(CartPage);
+
+    await cartPage.expectToMatchBaseline('cart', { compareOnly });
+  });
+
+  /**
+   * VR-05: Checkout Information Page
+   * Verify that the empty checkout information form matches its baseline
+   */
+  test('VR-05: Should match the checkout information page baseline', async ({
+    authenticatedPage: page,
+    productsPage,
+    cartPage,
+    checkoutInfoPage,
+  }) => {
+    await productsPage.addProductToCart(testData.products.backpack);
+    await productsPage.goToCart();
+    await cartPage.proceedToCheckout();
+    await expect(page).toBeOnPage(CheckoutInfoPage);
+
+    await checkoutInfoPage.expectToMatchBaseline('checkout-info', { compareOnly });
+  });
+
+  /**
+   * VR-06: Checkout Overview Page
+   * Verify that the checkout overview for one product matches its baseline
+   */
+  test('VR-06: Should match the checkout overview page baseline', async ({
+    authenticatedPage: page,
+    productsPage,
+    cartPage,
+    checkoutInfoPage,
+    checkoutOverviewPage,
+  }) => {
+    const customer = testData.customerInfo.valid;
+
+    await productsPage.addProductToCart(testData.products.backpack);
+    await productsPage.goToCart();
+    await cartPage.proceedToCheckout();
+    await checkoutInfoPage.fillCheckoutInfo(customer.firstName, customer.lastName, customer.postalCode);
+    await checkoutInfoPage.clickContinue();
+    await expect(page).toBeOnPage(CheckoutOverviewPage);
+
+    await checkoutOverviewPage.expectToMatchBaseline('checkout-overview', { compareOnly });
+  });
+
+  /**
+   * VR-07: Checkout Complete Page
+   * Verify that the order confirmation page matches its baseline
+   */
+  test('VR-07: Should match the checkout complete page baseline', async ({
+    authenticatedPage: page,
+    productsPage,
+    cartPage,
+    checkoutInfoPage,
+    checkoutOverviewPage,
+    checkoutCompletePage,
+  }) => {
+    const customer = testData.customerInfo.valid;
+
+    await productsPage.addProductToCart(testData.products.backpack);
+    await productsPage.goToCart();
+    await cartPage.proceedToCheckout();
+    await checkoutInfoPage.fillCheckoutInfo(customer.firstName, customer.lastName, customer.postalCode);
+    await checkoutInfoPage.clickContinue();
+    await checkoutOverviewPage.clickFinish();
+    await expect(page).toBeOnPage(CheckoutCompletePage);
+
+    await checkoutCompletePage.expectToMatchBaseline('checkout-complete', { compareOnly });
+  });
+});
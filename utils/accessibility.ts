@@ -0,0 +1,105 @@
+import { Page, test, expect } from '@playwright/test';
+import AxeBuilder from '@axe-core/playwright';
+import a11yBaselineData from '../fixtures/a11y-baseline.json';
+
+/**
+ * Accessibility audit helpers
+ * Runs axe-core over a page object's region and compares the findings with the violations accepted
+ * in fixtures/a11y-baseline.json. Page objects expose this as auditAccessibility().
+ */
+
+/** WCAG 2.1 A and AA rules checked by the audit */
+export const A11Y_TAGS = ['wcag2a', 'wcag2aa', 'wcag21a', 'wcag21aa'];
+
+/** Annotation type added when an accepted violation no longer occurs */
+export const A11Y_STALE_BASELINE_ANNOTATION = 'a11y-stale-baseline';
+
+/** A violation accepted for a page object */
+export interface A11yBaselineEntry {
+  /** axe rule ID, e.g. 'select-name' */
+  rule: string;
+  /** data-test value of the offending element, or its CSS selector when it has none */
+  target: string;
+  /** Why the violation is accepted for now */
+  reason: string;
+}
+
+/** One element that violates one rule */
+export interface A11yFinding {
+  rule: string;
+  impact: string;
+  help: string;
+  helpUrl: string;
+  /** data-test value of the offending element, or its CSS selector when it has none */
+  target: string;
+  /** Readable reference to the offending element, e.g. [data-test="product-sort-container"] */
+  element: string;
+}
+
+/** Accepted violations, keyed by page object class name */
+export const a11yBaseline = a11yBaselineData as Record<string, A11yBaselineEntry[]>;
+
+const DATA_TEST_PATTERN = /\bdata-test="([^"]+)"/;
+
+function isAccepted(finding: A11yFinding, accepted: A11yBaselineEntry[]): boolean {
+  return accepted.some(entry => entry.rule === finding.rule && entry.target === finding.target);
+}
+
+function describeFinding(finding: A11yFinding): string {
+  return `- ${finding.rule} (${finding.impact}) on ${finding.element}: ${finding.help}\n  ${finding.helpUrl}`;
+}
+
+/**
+ * Audit a region of the page and fail the test on violations that are not in the baseline
+ * The test carries on after a failed audit and is reported as failed at the end. The full axe results are attached to the test as accessibility-<pageName>.json.
+ * @param page - The page to audit
+ * @param pageName - The page object class name the baseline is keyed by
+ * @param region - CSS selectors of the elements to audit; violations outside them are ignored
+ */
+export async function auditAccessibility(page: Page, pageName: string, region: string[]): Promise<void> {
+  let builder = new AxeBuilder({ page }).withTags(A11Y_TAGS);
+  for (const selector of region) {
+    builder = builder.include(selector);
+  }
+  const results = await builder.analyze();
+
+  await test.info().attach(`accessibility-${pageName}.json`, {
+    body: JSON.stringify(results.violations, null, 2),
+    contentType: 'application/json',
+  });
+
+  const findings: A11yFinding[] = results.violations.flatMap(violation =>
+    violation.nodes.map(node => {
+      // Only the opening tag, so a child's data-test is not mistaken for the element's own
+      const openingTag = node.html.slice(0, node.html.indexOf('>') + 1);
+      const dataTest = openingTag.match(DATA_TEST_PATTERN)?.[1];
+      const selector = node.target.join(' ');
+      return {
+        rule: violation.id,
+        impact: violation.impact ?? 'unknown',
+        help: violation.help,
+        helpUrl: violation.helpUrl,
+        target: dataTest ?? selector,
+        element: dataTest ? `[data-test="${dataTest}"]` : selector,
+      };
+    })
+  );
+
+  const accepted = a11yBaseline[pageName] ?? [];
+  for (const entry of accepted) {
+    if (!findings.some(finding => isAccepted(finding, [entry]))) {
+      test.info().annotations.push({
+        type: A11Y_STALE_BASELINE_ANNOTATION,
+        description: `${pageName}: ${entry.rule} on ${entry.target} no longer occurs; remove it from fixtures/a11y-baseline.json`,
+      });
+    }
+  }
+
+  // Soft, so a walk over several pages reports every page's violations
+  const newFindings = findings.filter(finding => !isAccepted(finding, accepted));
+  expect.soft(
+    newFindings,
+    `${pageName} has ${newFindings.length} accessibility violation(s) not in fixtures/a11y-baseline.json:\n` +
+      newFindings.map(describeFinding).join('\n')
+  ).toEqual([]);
+}
@@ -0,0 +1,293 @@
+import { Page } from '@playwright/test';
+import { environment } from '../config/environments';
+import { catalog, ProductName, SortOption } from '../fixtures/catalog';
+import { CartPage } from '../pages/CartPage';
+import { CheckoutCompletePage } from '../pages/CheckoutCompletePage';
+import { CheckoutInfoPage } from '../pages/CheckoutInfoPage';
+import { CheckoutOverviewPage } from '../pages/CheckoutOverviewPage';
+import { LoginPage } from '../pages/LoginPage';
+import { ProductDetailsPage } from '../pages/ProductDetailsPage';
+import { ProductsPage } from '../pages/ProductsPage';
+import { testData } from './test-data';
+
+/**
+ * State-machine model of SauceDemo built from the page objects
+ * States are the app's pages plus what the test knows about the session and cart; transitions are
+ * page object methods. utils/explorer.ts walks this graph at random and checks invariants after each step.
+ */
+
+/** Pages of the application */
+export type AppPage = 'login' | 'inventory' | 'details' | 'cart' | 'checkout-info' | 'checkout-overview' | 'complete';
+
+/** URL path of each page */
+export const APP_PAGE_PATHS: Record<AppPage, string> = {
+  login: '/',
+  inventory: '/inventory.html',
+  details: '/inventory-item.html',
+  cart: '/cart.html',
+  'checkout-info': '/checkout-step-one.html',
+  'checkout-overview': '/checkout-step-two.html',
+  complete: '/checkout-complete.html',
+};
+
+/** Pages that redirect to the login page when logged out */
+export const AUTH_GATED_PATHS = [
+  APP_PAGE_PATHS.inventory,
+  APP_PAGE_PATHS.cart,
+  APP_PAGE_PATHS['checkout-info'],
+  APP_PAGE_PATHS['checkout-overview'],
+  APP_PAGE_PATHS.complete,
+];
+
+/** What the model expects the application to look like */
+export interface ModelState {
+  page: AppPage;
+  loggedIn: boolean;
+  /** Products expected in the cart, in the order they were added */
+  cart: string[];
+  /** Product shown on the details page */
+  detailsProduct?: string;
+  /** Gated path that just redirected to the login page */
+  redirectedFrom?: string;
+}
+
+/** One transition with its argument, as recorded in a walk */
+export interface Step {
+  action: string;
+  arg?: string;
+}
+
+/** The page objects of one browser page */
+export interface AppPages {
+  page: Page;
+  loginPage: LoginPage;
+  productsPage: ProductsPage;
+  productDetailsPage: ProductDetailsPage;
+  cartPage: CartPage;
+  checkoutInfoPage: CheckoutInfoPage;
+  checkoutOverviewPage: CheckoutOverviewPage;
+  checkoutCompletePage: CheckoutCompletePage;
+}
+
+/** A transition of the model */
+export interface AppAction {
+  name: string;
+  /** Relative likelihood of the explorer choosing the action when it is enabled (default: 1) */
+  weight?: number;
+  /**
+   * Arguments the action accepts in a state: [] when the action is not enabled,
+   * [undefined] when it is enabled and takes no argument
+   */
+  args(state: ModelState): (string | undefined)[];
+  /** Perform the action through the page objects */
+  run(pages: AppPages, arg?: string): Promise<void>;
+  /** The state the model expects after the action */
+  next(state: ModelState, arg?: string): ModelState;
+  /** The action as a line of spec code, for reproduction scripts */
+  code(arg?: string): string;
+}
+
+/** Initial state: a fresh browser context on the login page */
+export const INITIAL_STATE: ModelState = { page: 'login', loggedIn: false, cart: [] };
+
+const productNames = catalog.map(product => product.name);
+const sortOptions = Object.values(testData.sortOptions);
+const loggedInPages: AppPage[] = ['inventory', 'details', 'cart', 'checkout-info', 'checkout-overview', 'complete'];
+
+const when = (enabled: boolean, args: (string | undefined)[] = [undefined]) => (enabled ? args : []);
+const quote = (value?: string) => JSON.stringify(value ?? '');
+const sortOptionKey = (value?: string) => Object.keys(SortOption).find(key => SortOption[key as keyof typeof SortOption] === value);
+const { customerInfo } = testData;
+
+/**
+ * Build the page objects for a browser page
+ * @param page - The Playwright page
+ */
+export function createAppPages(page: Page): AppPages {
+  return {
+    page,
+    loginPage: new LoginPage(page),
+    productsPage: new ProductsPage(page),
+    productDetailsPage: new ProductDetailsPage(page),
+    cartPage: new CartPage(page),
+    checkoutInfoPage: new CheckoutInfoPage(page),
+    checkoutOverviewPage: new CheckoutOverviewPage(page),
+    checkoutCompletePage: new CheckoutCompletePage(page),
+  };
+}
+
+/** All transitions of the model */
+export const appActions: AppAction[] = [
+  {
+    name: 'visitGatedPage',
+    args: state => when(!state.loggedIn, AUTH_GATED_PATHS),
+    run: ({ loginPage }, path) => loginPage.goto(path!),
+    next: (state, path) => ({ ...state, page: 'login', redirectedFrom: path }),
+    code: path => `await loginPage.goto(${quote(path)});`,
+  },
+  {
+    name: 'login',
+    args: state => when(!state.loggedIn && state.page === 'login'),
+    run: ({ loginPage }) => loginPage.login(environment.credentials.username, environment.credentials.password),
+    next: state => ({ ...state, page: 'inventory', loggedIn: true, redirectedFrom: undefined }),
+    code: () => 'await loginPage.login(environment.credentials.username, environment.credentials.password);',
+  },
+  {
+    name: 'addProduct',
+    args: state => when(state.page === 'inventory', productNames.filter(name => !state.cart.includes(name))),
+    run: ({ productsPage }, name) => productsPage.addProductToCart(name as ProductName),
+    next: (state, name) => ({ ...state, cart: [...state.cart, name!] }),
+    code: name => `await productsPage.addProductToCart(${quote(name)});`,
+  },
+  {
+    name: 'removeProduct',
+    args: state => when(state.page === 'inventory', state.cart),
+    run: ({ productsPage }, name) => productsPage.removeProductFromCart(name as ProductName),
+    next: (state, name) => ({ ...state, cart: state.cart.filter(item => item !== name) }),
+    code: name => `await productsPage.removeProductFromCart(${quote(name)});`,
+  },
+  {
+    name: 'sort',
+    weight: 0.5,
+    args: state => when(state.page === 'inventory', sortOptions),
+    run: ({ productsPage }, option) => productsPage.selectSortOption(option as SortOption),
+    next: state => state,
+    code: option => `await productsPage.selectSortOption(SortOption.${sortOptionKey(option)});`,
+  },
+  {
+    name: 'openDetails',
+    args: state => when(state.page === 'inventory', productNames),
+    run: ({ productsPage }, name) => productsPage.clickProductTitle(name as ProductName),
+    next: (state, name) => ({ ...state, page: 'details', detailsProduct: name }),
+    code: name => `await productsPage.clickProductTitle(${quote(name)});`,
+  },
+  {
+    name: 'addFromDetails',
+    args: state => when(state.page === 'details' && !state.cart.includes(state.detailsProduct!)),
+    run: ({ productDetailsPage }) => productDetailsPage.addToCart(),
+    next: state => ({ ...state, cart: [...state.cart, state.detailsProduct!] }),
+    code: () => 'await productDetailsPage.addToCart();',
+  },
+  {
+    name: 'removeFromDetails',
+    args: state => when(state.page === 'details' && state.cart.includes(state.detailsProduct!)),
+    run: ({ productDetailsPage }) => productDetailsPage.removeFromCart(),
+    next: state => ({ ...state, cart: state.cart.filter(item => item !== state.detailsProduct) }),
+    code: () => 'await productDetailsPage.removeFromCart();',
+  },
+  {
+    name: 'backToProducts',
+    args: state => when(state.page === 'details'),
+    run: ({ productDetailsPage }) => productDetailsPage.goBackToProducts(),
+    next: state => ({ ...state, page: 'inventory', detailsProduct: undefined }),
+    code: () => 'await productDetailsPage.goBackToProducts();',
+  },
+  {
+    name: 'openCart',
+    weight: 0.5,
+    args: state => when(state.loggedIn && loggedInPages.includes(state.page)),
+    run: ({ productsPage }) => productsPage.goToCart(),
+    next: state => ({ ...state, page: 'cart', detailsProduct: undefined }),
+    code: () => 'await productsPage.goToCart();',
+  },
+  {
+    name: 'menuAllItems',
+    weight: 0.3,
+    args: state => when(state.loggedIn && loggedInPages.includes(state.page)),
+    run: ({ productsPage }) => productsPage.header.goToAllItems(),
+    next: state => ({ ...state, page: 'inventory', detailsProduct: undefined }),
+    code: () => 'await productsPage.header.goToAllItems();',
+  },
+  {
+    // The cart is kept with the user, so it is still there after logging back in
+    name: 'logout',
+    weight: 0.3,
+    args: state => when(state.loggedIn && loggedInPages.includes(state.page)),
+    run: ({ productsPage }) => productsPage.header.logout(),
+    next: state => ({ ...state, page: 'login', loggedIn: false, detailsProduct: undefined }),
+    code: () => 'await productsPage.header.logout();',
+  },
+  {
+    name: 'navigateToCart',
+    weight: 0.2,
+    args: state => when(state.loggedIn),
+    run: ({ cartPage }) => cartPage.navigateToCart(),
+    next: state => ({ ...state, page: 'cart', detailsProduct: undefined }),
+    code: () => 'await cartPage.navigateToCart();',
+  },
+  {
+    name: 'removeFromCartPage',
+    args: state => when(state.page === 'cart', state.cart),
+    run: ({ cartPage }, name) => cartPage.removeItem(name as ProductName),
+    next: (state, name) => ({ ...state, cart: state.cart.filter(item => item !== name) }),
+    code: name => `await cartPage.removeItem(${quote(name)});`,
+  },
+  {
+    name: 'continueShopping',
+    args: state => when(state.page === 'cart'),
+    run: ({ cartPage }) => cartPage.continueShopping(),
+    next: state => ({ ...state, page: 'inventory' }),
+    code: () => 'await cartPage.continueShopping();',
+  },
+  {
+    // Checking out an empty cart is known bug BUG-001, so the model only checks out a non-empty cart
+    name: 'checkout',
+    args: state => when(state.page === 'cart' && state.cart.length > 0),
+    run: ({ cartPage }) => cartPage.proceedToCheckout(),
+    next: state => ({ ...state, page: 'checkout-info' }),
+    code: () => 'await cartPage.proceedToCheckout();',
+  },
+  {
+    name: 'continueCheckout',
+    args: state => when(state.page === 'checkout-info'),
+    run: async ({ checkoutInfoPage }) => {
+      await checkoutInfoPage.fillCheckoutInfo(customerInfo.valid.firstName, customerInfo.valid.lastName, customerInfo.valid.postalCode);
+      await checkoutInfoPage.clickContinue();
+    },
+    next: state => ({ ...state, page: 'checkout-overview' }),
+    code: () =>
+      `await checkoutInfoPage.fillCheckoutInfo(${quote(customerInfo.valid.firstName)}, ${quote(customerInfo.valid.lastName)}, ${quote(customerInfo.valid.postalCode)});\n` +
+      'await checkoutInfoPage.clickContinue();',
+  },
+  {
+    name: 'cancelCheckoutInfo',
+    args: state => when(state.page === 'checkout-info'),
+    run: ({ checkoutInfoPage }) => checkoutInfoPage.clickCancel(),
+    next: state => ({ ...state, page: 'cart' }),
+    code: () => 'await checkoutInfoPage.clickCancel();',
+  },
+  {
+    name: 'cancelCheckoutOverview',
+    args: state => when(state.page === 'checkout-overview'),
+    run: ({ checkoutOverviewPage }) => checkoutOverviewPage.clickCancel(),
+    next: state => ({ ...state, page: 'inventory' }),
+    code: () => 'await checkoutOverviewPage.clickCancel();',
+  },
+  {
+    name: 'finish',
+    args: state => when(state.page === 'checkout-overview'),
+    run: ({ checkoutOverviewPage }) => checkoutOverviewPage.clickFinish(),
+    next: state => ({ ...state, page: 'complete', cart: [] }),
+    code: () => 'await checkoutOverviewPage.clickFinish();',
+  },
+  {
+    name: 'backHome',
+    args: state => when(state.page === 'complete'),
+    run: ({ checkoutCompletePage }) => checkoutCompletePage.goBackHome(),
+    next: state => ({ ...state, page: 'inventory' }),
+    code: () => 'await checkoutCompletePage.goBackHome();',
+  },
+];
+
+/**
+ * Get an action by name
+ * @param name - The action name
+ * @throws Error if the model has no such action
+ */
+export function getAppAction(name: string): AppAction {
+  const action = appActions.find(candidate => candidate.name === name);
+  if (!action) {
+    throw new Error(`Unknown model action "${name}"`);
+  }
+  return action;
+}
@@ -0,0 +1,242 @@
+import { BrowserContext, Page } from '@playwright/test';
+import { environment } from '../config/environments';
+import { catalog, catalogProduct } from '../fixtures/catalog';
+import { PersonaName, personaCredentials, personas } from '../fixtures/personas';
+import { HeaderComponent } from '../pages/components/HeaderComponent';
+import { APP_PAGE_PATHS, AppPage } from './app-model';
+import { shadowCartFor } from './shadow-cart';
+
+/**
+ * Application state API
+ * SauceDemo keeps all of its state in the browser: the logged-in user in the `session-username` cookie
+ * and the cart in localStorage under `cart-contents` (a JSON array of product ids). Reading and writing
+ * them directly sets up preconditions in one call instead of clicking through the UI.
+ */
+
+/** Cookie holding the logged-in username */
+export const SESSION_COOKIE = 'session-username';
+
+/** localStorage key holding the ids of the products in the cart */
+export const CART_STORAGE_KEY = 'cart-contents';
+
+/** State a test starts from */
+export interface AppStartState {
+  /** Persona to log in as (default: standard_user); null starts logged out */
+  persona?: PersonaName | null;
+  /** Products in the cart, in the order they were added (default: empty) */
+  cart?: string[];
+  /** Page to open (default: inventory, or login when logged out) */
+  page?: AppPage;
+  /** Product whose page is opened when page is 'details' */
+  product?: string;
+}
+
+/** The application state of a browser context */
+export interface AppStateSnapshot {
+  /** Username in the session cookie, if logged in */
+  sessionUser?: string;
+  /** Product ids stored in the cart */
+  cartIds: number[];
+  /** Other cookies and localStorage keys */
+  otherStorage: string[];
+}
+
+/**
+ * Read the application state of a browser context without navigating
+ * @param context - The browser context
+ * @returns The session user, stored cart and any other stored state
+ */
+export async function snapshotAppState(context: BrowserContext): Promise<AppStateSnapshot> {
+  const storage = await context.storageState();
+  const snapshot: AppStateSnapshot = { cartIds: [], otherStorage: [] };
+
+  for (const cookie of storage.cookies) {
+    if (cookie.name === SESSION_COOKIE) {
+      snapshot.sessionUser = cookie.value;
+    } else {
+      snapshot.otherStorage.push(`cookie ${cookie.name} (${cookie.domain})`);
+    }
+  }
+
+  for (const origin of storage.origins) {
+    for (const item of origin.localStorage) {
+      if (item.name === CART_STORAGE_KEY) {
+        snapshot.cartIds.push(...parseCartIds(item.value));
+      } else {
+        snapshot.otherStorage.push(`localStorage ${item.name} (${origin.origin})`);
+      }
+    }
+  }
+
+  return snapshot;
+}
+
+/** Annotation type of the tests allowed to change the saved sessions, i.e. the auth setup */
+export const SAVES_SESSIONS_ANNOTATION = 'saves-sessions';
+
+/**
+ * Compare the sessions saved by the auth setup project before and after a test
+ * Each test's browser context is discarded with it, so the saved sessions are the state a test can leave
+ * for the next one: authenticatedPage restores them.
+ * @param before - The saved sessions when the test started (see readSavedSessions)
+ * @param after - The saved sessions when it finished
+ * @returns One line per session the test added, changed or deleted; empty when nothing leaked
+ */
+export function describeSessionChanges(before: Map<string, string>, after: Map<string, string>): string[] {
+  const changes: string[] = [];
+  for (const [username, state] of after) {
+    if (!before.has(username)) {
+      changes.push(`saved a session for ${username}`);
+    } else if (before.get(username) !== state) {
+      changes.push(`changed the saved session of ${username}`);
+    }
+  }
+  for (const username of before.keys()) {
+    if (!after.has(username)) {
+      changes.push(`deleted the saved session of ${username}`);
+    }
+  }
+  return changes;
+}
+
+function parseCartIds(value: string | null): number[] {
+  try {
+    const ids: unknown = JSON.parse(value ?? '[]');
+    return Array.isArray(ids) ? ids.filter((id): id is number => typeof id === 'number') : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * AppState class reads and writes the application state of a test page
+ * Changes to the cart keep the page's shadow cart in step, so verifyCart() works after seeding.
+ * Storage is only reachable on the application's origin, so the page is moved there first when needed.
+ */
+export class AppState {
+  private readonly page: Page;
+
+  constructor(page: Page) {
+    this.page = page;
+  }
+
+  /**
+   * Get the products stored in the cart
+   * @returns Product names, in the order they were added
+   * @throws Error if the cart holds an id missing from the catalog
+   */
+  async getCart(): Promise<string[]> {
+    await this.ensureAppOrigin();
+    const value = await this.page.evaluate(key => window.localStorage.getItem(key), CART_STORAGE_KEY);
+
+    return parseCartIds(value).map(id => {
+      const product = catalog.find(candidate => candidate.id === id);
+      if (!product) {
+        throw new Error(`Cart holds product id ${id}, which is not in the catalog`);
+      }
+      return product.name;
+    });
+  }
+
+  /**
+   * Replace the stored cart
+   * Pages already open keep showing the old cart until they are reloaded or left.
+   * @param productNames - Products to put in the cart, in the order they were added
+   */
+  async seedCart(productNames: string[]): Promise<void> {
+    const ids = productNames.map(name => catalogProduct(name).id);
+    await this.ensureAppOrigin();
+    await this.page.evaluate(
+      ({ key, value }) => window.localStorage.setItem(key, value),
+      { key: CART_STORAGE_KEY, value: JSON.stringify(ids) }
+    );
+
+    const shadowCart = shadowCartFor(this.page);
+    shadowCart.clear();
+    productNames.forEach(name => shadowCart.add(name));
+  }
+
+  /**
+   * Empty the stored cart
+   * Pages already open keep showing the old cart until they are reloaded or left.
+   */
+  async clearCart(): Promise<void> {
+    await this.seedCart([]);
+  }
+
+  /**
+   * Empty the cart with "Reset App State" in the burger menu, as a user would
+   * Must be called on a page behind the login.
+   * @throws Error if the stored cart is not empty afterwards
+   */
+  async resetAppState(): Promise<void> {
+    await new HeaderComponent(this.page).resetAppState();
+
+    const cart = await this.getCart();
+    if (cart.length > 0) {
+      throw new Error(`Reset App State left ${cart.join(', ')} in the cart`);
+    }
+  }
+
+  /**
+   * Log in as a persona by setting the session cookie
+   * Skips the login form, so the persona's login quirks (lockout, slow login) do not apply.
+   * @param persona - The persona to log in as
+   * @throws Error for a persona that cannot log in
+   */
+  async logIn(persona: PersonaName = 'standard_user'): Promise<void> {
+    if (personas[persona].quirks.lockedOut) {
+      throw new Error(`${persona} cannot log in, so no session is seeded for it`);
+    }
+
+    await this.page.context().addCookies([
+      { name: SESSION_COOKIE, value: personaCredentials(persona).username, url: environment.baseURL },
+    ]);
+  }
+
+  /**
+   * Log out by removing the session cookie; the stored cart is kept, as on logout
+   */
+  async logOut(): Promise<void> {
+    await this.page.context().clearCookies({ name: SESSION_COOKIE });
+  }
+
+  /**
+   * Set up the session and cart, then open a page
+   * e.g. start({ cart: [backpack, bikeLight], page: 'checkout-info' }) opens checkout step one with two products
+   * @param state - The state to start from
+   */
+  async start(state: AppStartState = {}): Promise<void> {
+    const persona = state.persona === undefined ? 'standard_user' : state.persona;
+
+    if (persona) {
+      await this.logIn(persona);
+    } else {
+      await this.logOut();
+    }
+    await this.seedCart(state.cart ?? []);
+
+    const page = state.page ?? (persona ? 'inventory' : 'login');
+    if (page === 'details' && !state.product) {
+      throw new Error("Starting on the details page needs the product to show, e.g. { page: 'details', product }");
+    }
+    const query = page === 'details' ? `?id=${catalogProduct(state.product!).id}` : '';
+    await this.page.goto(`${APP_PAGE_PATHS[page]}${query}`);
+  }
+
+  /**
+   * Read the session and cart of the page's browser context
+   */
+  async snapshot(): Promise<AppStateSnapshot> {
+    return await snapshotAppState(this.page.context());
+  }
+
+  /**
+   * Open the login page unless the page already shows the application, so its storage can be reached
+   */
+  private async ensureAppOrigin(): Promise<void> {
+    if (!this.page.url().startsWith(new URL(environment.baseURL).origin)) {
+      await this.page.goto(APP_PAGE_PATHS.login);
+    }
+  }
+}
@@ -0,0 +1,57 @@
+import { BrowserContext } from '@playwright/test';
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import path from 'path';
+import { environment } from '../config/environments';
+
+/** Cookie shape accepted by BrowserContext.addCookies */
+export type SessionCookie = Parameters<BrowserContext['addCookies']>[0][number];
+
+/** Directory holding the storage state saved by the auth setup project (git-ignored) */
+export const AUTH_STATE_DIR = path.join(__dirname, '..', 'playwright', '.auth');
+
+/**
+ * Get the storage state file for a user in the active environment
+ * @param username - The username the state was saved for
+ * @returns Absolute path of the storage state file
+ */
+export function authStatePath(username: string): string {
+  return path.join(AUTH_STATE_DIR, environment.name, `${username}.json`);
+}
+
+/**
+ * Load the session cookies saved for a user by the auth setup project
+ * SauceDemo gives `session-username` a 10 minute expiry, which a full cross-browser run outlasts,
+ * so the cookies are returned as session cookies that live as long as the test's browser context.
+ * @param username - The username the state was saved for
+ * @returns The cookies to add to a browser context, or undefined if no state was saved
+ */
+export function loadSessionCookies(username: string): SessionCookie[] | undefined {
+  const statePath = authStatePath(username);
+  if (!existsSync(statePath)) {
+    return undefined;
+  }
+
+  const state = JSON.parse(readFileSync(statePath, 'utf-8')) as { cookies?: SessionCookie[] };
+  if (!state.cookies || state.cookies.length === 0) {
+    return undefined;
+  }
+
+  return state.cookies.map(({ expires: _expires, ...cookie }) => cookie);
+}
+
+/**
+ * Read every session the auth setup project saved for the active environment
+ * @returns The contents of each storage state file, by username
+ */
+export function readSavedSessions(): Map<string, string> {
+  const stateDir = path.join(AUTH_STATE_DIR, environment.name);
+  if (!existsSync(stateDir)) {
+    return new Map();
+  }
+
+  return new Map(
+    readdirSync(stateDir)
+      .filter(file => file.endsWith('.json'))
+      .map(file => [path.basename(file, '.json'), readFileSync(path.join(stateDir, file), 'utf-8')])
+  );
+}
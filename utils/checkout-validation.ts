@@ -0,0 +1,106 @@
+import checkoutValidationData from '../fixtures/checkout-validation.json';
+import { CustomerInfo } from '../models/customer-info';
+import { getKnownBug } from './known-bugs';
+import { DATA_VARIANTS, DataVariant, TestDataFactory } from './test-data-factory';
+import { extractTestId } from './test-id';
+
+/**
+ * Checkout form validation matrix
+ * Rows of fixtures/checkout-validation.json: what is typed into the checkout information form and
+ * what should happen on Continue. tests/checkout.spec.ts generates one test per row.
+ * A row with a data variant leaves fields out, which are then generated by the test's data factory.
+ */
+
+/** One combination of checkout form input, as read from the fixture file before its outcome is checked */
+export interface CheckoutValidationRow {
+  /** ID the row is reported under (e.g. 'CV-01') */
+  id: string;
+  /** Test plan case the row belongs to (e.g. 'TC-27') */
+  testCase: string;
+  title: string;
+  firstName?: string;
+  lastName?: string;
+  postalCode?: string;
+  /** Kind of generated value for the fields the row leaves out */
+  variant?: DataVariant;
+  /** Text the error message contains; the form stays on checkout step one */
+  expectedError?: string;
+  /** Path the form continues to */
+  expectedUrl?: string;
+  /** Registered bug the row fails with while it is open (see fixtures/known-bugs.json) */
+  knownBug?: string;
+}
+
+/** What should happen on Continue: exactly one of an error or a page the form continues to */
+export type CheckoutValidationOutcome =
+  | {
+      /** Text the error message contains; the form stays on checkout step one */
+      expectedError: string;
+    }
+  | {
+      /** Path the form continues to */
+      expectedUrl: string;
+    };
+
+/** One combination of checkout form input and its expected outcome */
+export type CheckoutValidationCase = Omit<CheckoutValidationRow, 'expectedError' | 'expectedUrl'> &
+  CheckoutValidationOutcome;
+
+/**
+ * Check the rows of the matrix
+ * @param rows - The rows as read from the fixture file
+ * @returns The rows, each with its one expected outcome
+ * @throws Error naming the first row without a usable ID, with a field left out but no data variant,
+ * with both or neither expected outcome, or with an unknown bug
+ */
+export function validateCheckoutValidationCases(rows: CheckoutValidationRow[]): CheckoutValidationCase[] {
+  const seen = new Set<string>();
+
+  return rows.map(({ expectedError, expectedUrl, ...row }) => {
+    if (extractTestId(row.id) !== row.id || seen.has(row.id)) {
+      throw new Error(`Checkout validation row "${row.id}" needs a unique ID such as CV-01`);
+    }
+    seen.add(row.id);
+
+    if (row.variant === undefined) {
+      if (row.firstName === undefined || row.lastName === undefined || row.postalCode === undefined) {
+        throw new Error(`Checkout validation row ${row.id} needs a firstName, lastName and postalCode, or a variant`);
+      }
+    } else if (!DATA_VARIANTS.includes(row.variant)) {
+      throw new Error(
+        `Checkout validation row ${row.id} has unknown variant "${row.variant}". Use one of: ${DATA_VARIANTS.join(', ')}`
+      );
+    }
+    if (row.knownBug) {
+      getKnownBug(row.knownBug);
+    }
+
+    if (expectedError !== undefined && expectedUrl === undefined) {
+      return { ...row, expectedError };
+    }
+    if (expectedUrl !== undefined && expectedError === undefined) {
+      return { ...row, expectedUrl };
+    }
+    throw new Error(`Checkout validation row ${row.id} needs either expectedError or expectedUrl`);
+  });
+}
+
+/**
+ * Get the customer details a row enters into the form
+ * @param row - The row
+ * @param factory - Generates the fields the row leaves out, as the row's variant
+ * @returns The row's fields, with generated values for the ones it leaves out
+ */
+export function checkoutValidationInput(row: CheckoutValidationCase, factory: TestDataFactory): CustomerInfo {
+  const generated = factory.customer(row.variant).build();
+  return {
+    firstName: row.firstName ?? generated.firstName,
+    lastName: row.lastName ?? generated.lastName,
+    postalCode: row.postalCode ?? generated.postalCode,
+  };
+}
+
+/** All rows of the matrix, in file order */
+export const checkoutValidationCases = validateCheckoutValidationCases(
+  checkoutValidationData as CheckoutValidationRow[]
+);
@@ -0,0 +1,232 @@
+import { expect, Page } from '@playwright/test';
+import {
+  appActions,
+  AppPages,
+  APP_PAGE_PATHS,
+  createAppPages,
+  getAppAction,
+  INITIAL_STATE,
+  ModelState,
+  Step,
+} from './app-model';
+import { SeededRandom } from './random';
+import { verifyCart } from './verify-cart';
+
+/**
+ * Model-based random-walk explorer
+ * Generates seeded random walks over the model in utils/app-model.ts, runs them through the page
+ * objects, checks invariants after every step and shrinks a failing walk to a minimal script.
+ */
+
+/** Options for an exploration run */
+export interface ExploreOptions {
+  seed: number;
+  /** Number of steps in the walk */
+  steps: number;
+  /** Open a fresh page in a new browser context; used for the walk and for every shrinking replay */
+  newPage: () => Promise<Page>;
+  /** Maximum number of replays spent on shrinking a failing walk (default: 30) */
+  maxShrinkReplays?: number;
+}
+
+/** Result of an exploration run */
+export interface ExploreResult {
+  seed: number;
+  steps: Step[];
+  /** Present when an invariant failed */
+  failure?: {
+    error: string;
+    /** The shortest walk found that still fails */
+    minimalSteps: Step[];
+    /** The minimal walk as spec code */
+    script: string;
+  };
+}
+
+/**
+ * Generate a random walk from the initial state
+ * @param random - The seeded random source
+ * @param length - Number of steps
+ * @returns The steps, each enabled in the state the previous steps lead to
+ */
+export function generateWalk(random: SeededRandom, length: number): Step[] {
+  const steps: Step[] = [];
+  let state = INITIAL_STATE;
+
+  for (let i = 0; i < length; i++) {
+    const enabled = appActions.filter(action => action.args(state).length > 0);
+    const action = random.pickWeighted(enabled, candidate => candidate.weight ?? 1);
+    const arg = random.pick(action.args(state));
+    steps.push({ action: action.name, arg });
+    state = action.next(state, arg);
+  }
+
+  return steps;
+}
+
+/**
+ * Check that every step of a walk is enabled in the state it runs in
+ * Shrinking removes steps, which can leave a later step without its precondition.
+ * @param steps - The walk
+ */
+export function isValidWalk(steps: Step[]): boolean {
+  let state = INITIAL_STATE;
+  for (const step of steps) {
+    const action = getAppAction(step.action);
+    if (!action.args(state).includes(step.arg)) {
+      return false;
+    }
+    state = action.next(state, step.arg);
+  }
+  return true;
+}
+
+/**
+ * Check the invariants that hold in every state
+ * - The browser shows the page the model expects
+ * - A gated page visited while logged out redirected to the login page with the access message
+ * - Logged in, the cart badge, product buttons and listed items match the expected cart (verifyCart)
+ * - On the cart page, the badge count equals the number of cart rows
+ */
+async function checkInvariants(pages: AppPages, state: ModelState): Promise<void> {
+  const { page, loginPage, productsPage, cartPage } = pages;
+
+  expect(new URL(page.url()).pathname, 'current page').toBe(APP_PAGE_PATHS[state.page]);
+
+  if (state.redirectedFrom) {
+    expect(await loginPage.getErrorMessage(), 'logged-out access message').toContain(
+      `You can only access '${state.redirectedFrom}' when you are logged in`
+    );
+  }
+
+  if (state.loggedIn) {
+    await verifyCart(page);
+  }
+
+  if (state.page === 'cart') {
+    expect(await productsPage.header.getCartBadgeCount(), 'badge vs cart rows').toBe(await cartPage.getCartItemElementCount());
+  }
+}
+
+/** Outcome of running a walk: the index of the failing step and the error, or undefined if the walk passed */
+export type WalkFailure = { index: number; error: string } | undefined;
+
+/**
+ * Run a walk in a fresh page, checking invariants after every step
+ * @returns The index of the failing step and the error, or undefined if the walk passed
+ */
+async function runWalk(steps: Step[], newPage: () => Promise<Page>): Promise<WalkFailure> {
+  const page = await newPage();
+  const pages = createAppPages(page);
+  let state = INITIAL_STATE;
+
+  try {
+    await pages.loginPage.navigate();
+    for (let index = 0; index < steps.length; index++) {
+      const action = getAppAction(steps[index].action);
+      try {
+        await action.run(pages, steps[index].arg);
+        state = action.next(state, steps[index].arg);
+        await checkInvariants(pages, state);
+      } catch (error) {
+        return { index, error: error instanceof Error ? error.message : String(error) };
+      }
+    }
+    return undefined;
+  } finally {
+    await page.context().close();
+  }
+}
+
+/**
+ * Shrink a failing walk by removing chunks of steps while it still fails (delta debugging)
+ * @param steps - The failing walk, ending with the failing step
+ * @param error - The walk's error
+ * @param replay - Runs a shorter candidate walk; explore() runs it in a fresh page
+ * @param maxReplays - Maximum number of candidates to run
+ * @returns The shortest failing walk found within the replay budget, and its error
+ */
+export async function shrinkWalk(
+  steps: Step[],
+  error: string,
+  replay: (candidate: Step[]) => Promise<WalkFailure>,
+  maxReplays: number
+): Promise<{ steps: Step[]; error: string }> {
+  let current = steps;
+  let currentError = error;
+  let replays = 0;
+  let chunkSize = Math.max(1, Math.floor(current.length / 2));
+
+  while (chunkSize >= 1 && replays < maxReplays) {
+    let removed = false;
+
+    for (let start = 0; start < current.length && replays < maxReplays; start += chunkSize) {
+      const candidate = [...current.slice(0, start), ...current.slice(start + chunkSize)];
+      if (candidate.length === 0 || !isValidWalk(candidate)) {
+        continue;
+      }
+
+      replays++;
+      const failure = await replay(candidate);
+      if (failure) {
+        current = candidate.slice(0, failure.index + 1);
+        currentError = failure.error;
+        removed = true;
+        break;
+      }
+    }
+
+    if (!removed) {
+      chunkSize = Math.floor(chunkSize / 2);
+    }
+  }
+
+  return { steps: current, error: currentError };
+}
+
+/**
+ * Render a walk as spec code using the page object fixtures
+ * @param steps - The walk
+ * @param seed - The seed that generated it
+ */
+export function renderScript(steps: Step[], seed: number): string {
+  const lines = steps.flatMap(step => getAppAction(step.action).code(step.arg).split('\n'));
+  return [
+    `// Reproduction found by the explorer (seed ${seed}); uses environment from config/environments and SortOption from fixtures/catalog`,
+    `test('Explorer reproduction (seed ${seed})', async ({ page, loginPage, productsPage, productDetailsPage, cartPage, checkoutInfoPage, checkoutOverviewPage, checkoutCompletePage, verifyCart }) => {`,
+    '  await loginPage.navigate();',
+    ...lines.map(line => `  ${line}`),
+    '  await verifyCart();',
+    '});',
+  ].join('\n');
+}
+
+/**
+ * Generate a seeded walk, run it and shrink it if an invariant fails
+ * @param options - Seed, walk length and a factory for fresh pages
+ * @returns The walk and, when it failed, the minimal failing walk as a script
+ */
+export async function explore(options: ExploreOptions): Promise<ExploreResult> {
+  const steps = generateWalk(new SeededRandom(options.seed), options.steps);
+  const failure = await runWalk(steps, options.newPage);
+  if (!failure) {
+    return { seed: options.seed, steps };
+  }
+
+  const shrunk = await shrinkWalk(
+    steps.slice(0, failure.index + 1),
+    failure.error,
+    candidate => runWalk(candidate, options.newPage),
+    options.maxShrinkReplays ?? 30
+  );
+
+  return {
+    seed: options.seed,
+    steps,
+    failure: {
+      error: shrunk.error,
+      minimalSteps: shrunk.steps,
+      script: renderScript(shrunk.steps, options.seed),
+    },
+  };
+}
@@ -0,0 +1,17 @@
+import path from 'path';
+import { harMode, mergeHarFragments } from './har';
+
+/**
+ * Global teardown of playwright.config.ts
+ * After a recording run (HAR_MODE=record), merges the traffic of each test into its spec's archive.
+ */
+export default async function harTeardown(): Promise<void> {
+  if (harMode !== 'record') {
+    return;
+  }
+
+  const archives = mergeHarFragments();
+  for (const archive of archives) {
+    console.log(`HAR archive written to ${path.relative(process.cwd(), archive)}`);
+  }
+}
@@ -0,0 +1,201 @@
+import { BrowserContext, BrowserContextOptions, TestInfo } from '@playwright/test';
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import path from 'path';
+import { environment } from '../config/environments';
+
+/**
+ * HAR record-and-replay helpers
+ * HAR_MODE=record captures the network traffic of each test and merges it into one archive per spec
+ * when the run ends; HAR_MODE=replay serves the archives back through Playwright routing, so specs run
+ * without reaching the application. Archives are kept per environment in fixtures/har/<environment>/.
+ */
+
+/** How the suite uses the HAR archives: capture traffic, serve it back, or not at all */
+export type HarMode = 'record' | 'replay' | 'off';
+
+/** Directory holding the archives of the active environment */
+export const HAR_DIR = path.join(__dirname, '..', 'fixtures', 'har', environment.name);
+
+/** Directory the tests of a recording run write their traffic to before it is merged per spec */
+export const HAR_FRAGMENT_DIR = path.join(__dirname, '..', 'test-results', 'har-fragments');
+
+/**
+ * Requests that are neither recorded nor reported as missing on replay
+ * SauceDemo posts client errors to backtrace.io with a body that differs on every run.
+ */
+export const HAR_IGNORED_URLS: RegExp[] = [/events\.backtrace\.io/];
+
+/** Minimal shape of a HAR file, as far as merging needs it */
+interface HarFile {
+  log: {
+    entries: { request: { method: string; url: string } }[];
+    [key: string]: unknown;
+  };
+}
+
+/**
+ * Read the HAR mode from the HAR_MODE environment variable
+ * @param value - The variable's value
+ * @returns The HAR mode, 'off' when unset
+ * @throws Error if the value is not a HAR mode
+ */
+export function parseHarMode(value: string | undefined): HarMode {
+  if (!value || value === 'off') {
+    return 'off';
+  }
+  if (value === 'record' || value === 'replay') {
+    return value;
+  }
+  throw new Error(`Unknown HAR_MODE "${value}". Use record, replay or off.`);
+}
+
+/** The HAR mode of this run */
+export const harMode: HarMode = parseHarMode(process.env.HAR_MODE);
+
+/** Service workers would answer requests before HAR routing sees them, so they are blocked while recording or replaying */
+export const harServiceWorkers: BrowserContextOptions['serviceWorkers'] = harMode === 'off' ? 'allow' : 'block';
+
+/**
+ * Get the archive of a spec file
+ * @param specFile - Path of the spec file
+ * @returns Absolute path of the spec's archive, e.g. fixtures/har/prod/login.spec.har
+ */
+export function harArchivePath(specFile: string): string {
+  return path.join(HAR_DIR, `${path.basename(specFile, '.ts')}.har`);
+}
+
+function isIgnored(url: string): boolean {
+  return HAR_IGNORED_URLS.some(pattern => pattern.test(url));
+}
+
+/**
+ * Capture the traffic of a test's browser context
+ * The context writes the HAR when it closes; mergeHarFragments() folds it into the spec's archive.
+ * @param context - The test's browser context
+ * @param testInfo - The running test
+ * @param contextIndex - Distinguishes the contexts of a test that opens more than one
+ */
+export async function recordHar(context: BrowserContext, testInfo: TestInfo, contextIndex = 0): Promise<void> {
+  const fragment = path.join(
+    HAR_FRAGMENT_DIR,
+    path.basename(testInfo.file, '.ts'),
+    `${testInfo.testId}-${testInfo.repeatEachIndex}-${testInfo.retry}-${contextIndex}.har`
+  );
+  mkdirSync(path.dirname(fragment), { recursive: true });
+
+  await context.routeFromHAR(fragment, {
+    update: true,
+    updateContent: 'embed',
+    updateMode: 'minimal',
+  });
+}
+
+/**
+ * Serve a test's browser context from the archive of its spec
+ * Requests the archive has no response for are aborted and collected instead of reaching the network.
+ * @param context - The test's browser context
+ * @param specFile - Path of the running spec file
+ * @returns The requests missing from the archive, filled in as the test runs ("GET https://...")
+ * @throws Error if the spec has no archive
+ */
+export async function replayHar(context: BrowserContext, specFile: string): Promise<string[]> {
+  const archive = harArchivePath(specFile);
+  if (!existsSync(archive)) {
+    throw new Error(
+      `No HAR archive for ${path.basename(specFile)} in ${path.relative(process.cwd(), HAR_DIR)}. ` +
+        `Record it with: npm run har:refresh -- ${path.relative(process.cwd(), specFile)}`
+    );
+  }
+
+  const missingRequests: string[] = [];
+
+  // Routes registered later take precedence, so this only sees what the archive falls back on
+  await context.route('**/*', async route => {
+    const request = route.request();
+    if (!isIgnored(request.url())) {
+      missingRequests.push(`${request.method()} ${request.url()}`);
+    }
+    await route.abort('blockedbyclient');
+  });
+  await context.routeFromHAR(archive, { notFound: 'fallback' });
+
+  return missingRequests;
+}
+
+/**
+ * Record or replay the traffic of a test's browser context, depending on the HAR mode of the run
+ * @param context - The test's browser context
+ * @param testInfo - The running test
+ * @param contextIndex - Distinguishes the contexts of a test that opens more than one
+ * @returns The requests missing from the spec's archive when replaying, otherwise none
+ */
+export async function applyHarMode(context: BrowserContext, testInfo: TestInfo, contextIndex = 0): Promise<string[]> {
+  if (harMode === 'record') {
+    await recordHar(context, testInfo, contextIndex);
+  }
+  return harMode === 'replay' ? await replayHar(context, testInfo.file) : [];
+}
+
+/**
+ * Fail the test if replayed contexts made requests the archive has no response for
+ * @param specFile - Path of the running spec file
+ * @param missingRequests - The requests collected by replayHar()
+ * @throws Error listing the missing requests and how to record them
+ */
+export function assertNoMissingRequests(specFile: string, missingRequests: string[]): void {
+  if (missingRequests.length === 0) {
+    return;
+  }
+
+  throw new Error(
+    `${missingRequests.length} request(s) missing from ${path.relative(process.cwd(), harArchivePath(specFile))}:\n` +
+      missingRequests.map(request => `  ${request}`).join('\n') +
+      `\nRecord the spec again with: npm run har:refresh -- ${path.relative(process.cwd(), specFile)}`
+  );
+}
+
+/**
+ * Merge the traffic recorded by each test into one archive per spec
+ * Runs after a recording run; a spec's archive is replaced by the merged traffic of its tests.
+ * Entries for the same method and URL are kept once, in the order they were first recorded.
+ * @param fragmentDir - Directory of the recorded traffic, one subdirectory per spec (default: HAR_FRAGMENT_DIR)
+ * @param harDir - Directory to write the archives to (default: HAR_DIR)
+ * @returns Paths of the archives written
+ */
+export function mergeHarFragments(fragmentDir: string = HAR_FRAGMENT_DIR, harDir: string = HAR_DIR): string[] {
+  if (!existsSync(fragmentDir)) {
+    return [];
+  }
+
+  const written: string[] = [];
+  for (const spec of readdirSync(fragmentDir)) {
+    const specDir = path.join(fragmentDir, spec);
+    const fragments = readdirSync(specDir)
+      .filter(file => file.endsWith('.har'))
+      .sort()
+      .map(file => JSON.parse(readFileSync(path.join(specDir, file), 'utf-8')) as HarFile);
+    if (fragments.length === 0) {
+      continue;
+    }
+
+    const seen = new Set<string>();
+    const entries = fragments
+      .flatMap(fragment => fragment.log.entries)
+      .filter(entry => {
+        const key = `${entry.request.method} ${entry.request.url}`;
+        if (seen.has(key) || isIgnored(entry.request.url)) {
+          return false;
+        }
+        seen.add(key);
+        return true;
+      });
+
+    const archive = path.join(harDir, `${spec}.har`);
+    mkdirSync(harDir, { recursive: true });
+    writeFileSync(archive, JSON.stringify({ log: { ...fragments[0].log, entries } }, null, 2));
+    written.push(archive);
+  }
+
+  rmSync(fragmentDir, { recursive: true, force: true });
+  return written;
+}
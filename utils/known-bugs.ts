@@ -0,0 +1,118 @@
+import knownBugsData from '../fixtures/known-bugs.json';
+
+/**
+ * Known-bug registry helpers
+ * Bugs are recorded in fixtures/known-bugs.json, which is checked when this module loads. Tests reference
+ * them with knownBug() and the knownBugTracking fixture turns open bugs into expected failures.
+ */
+
+/** Annotation type used to link a test to a registered bug */
+export const KNOWN_BUG_ANNOTATION = 'known-bug';
+
+/** Whether a bug still reproduces ('open') or has been fixed in the application ('fixed') */
+export type KnownBugStatus = 'open' | 'fixed';
+
+/** Every bug status */
+export const KNOWN_BUG_STATUSES: KnownBugStatus[] = ['open', 'fixed'];
+
+/** A bug found in the application under test */
+export interface KnownBug {
+  title: string;
+  /** Test IDs (e.g. 'TC-25') that fail while the bug is open */
+  testIds: string[];
+  issue: string;
+  expected: string;
+  actual: string;
+  status: KnownBugStatus;
+  /** Spec file covering the bug */
+  location: string;
+  impact: string;
+}
+
+/** Fields of a bug that hold text */
+const TEXT_FIELDS = ['title', 'issue', 'expected', 'actual', 'location', 'impact'] as const;
+
+/**
+ * Check a bug's fields
+ * @param bugId - The bug ID, for error messages
+ * @param bug - The bug as read from the fixture file
+ * @returns One message per problem found; empty when the bug is valid
+ */
+function checkKnownBug(bugId: string, bug: unknown): string[] {
+  if (typeof bug !== 'object' || bug === null || Array.isArray(bug)) {
+    return [`${bugId} must be an object, got ${JSON.stringify(bug)}`];
+  }
+
+  const fields = bug as Record<string, unknown>;
+  const knownFields: string[] = [...TEXT_FIELDS, 'testIds', 'status'];
+  const problems = Object.keys(fields)
+    .filter(key => !knownFields.includes(key))
+    .map(key => `${bugId}.${key} is not a known field (expected one of: ${knownFields.join(', ')})`);
+
+  for (const key of TEXT_FIELDS) {
+    if (typeof fields[key] !== 'string') {
+      problems.push(`${bugId}.${key} must be a string, got ${JSON.stringify(fields[key])}`);
+    }
+  }
+  const testIds = fields.testIds;
+  if (!Array.isArray(testIds) || testIds.some(testId => typeof testId !== 'string')) {
+    problems.push(`${bugId}.testIds must be a list of test IDs, got ${JSON.stringify(testIds)}`);
+  }
+  if (!KNOWN_BUG_STATUSES.includes(fields.status as KnownBugStatus)) {
+    problems.push(
+      `${bugId}.status must be one of ${KNOWN_BUG_STATUSES.join(', ')}, got ${JSON.stringify(fields.status)}`
+    );
+  }
+  return problems;
+}
+
+/**
+ * Check the bug registry
+ * @param data - The contents of fixtures/known-bugs.json
+ * @returns The registered bugs, keyed by bug ID
+ * @throws Error listing every field that does not describe a bug
+ */
+export function validateKnownBugs(data: unknown): Record<string, KnownBug> {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new Error(
+      `Invalid known bugs in fixtures/known-bugs.json: expected bugs keyed by ID, got ${JSON.stringify(data)}`
+    );
+  }
+
+  const problems = Object.entries(data).flatMap(([bugId, bug]) => checkKnownBug(bugId, bug));
+  if (problems.length > 0) {
+    throw new Error(
+      `Invalid known bugs in fixtures/known-bugs.json:\n${problems.map(problem => `  - ${problem}`).join('\n')}`
+    );
+  }
+  return data as Record<string, KnownBug>;
+}
+
+/** All registered bugs, keyed by bug ID */
+export const knownBugs = validateKnownBugs(knownBugsData);
+
+/**
+ * Get a registered bug
+ * @param bugId - The bug ID (e.g. 'BUG-001')
+ * @returns The registered bug
+ * @throws Error if the bug is not registered
+ */
+export function getKnownBug(bugId: string): KnownBug {
+  const bug = knownBugs[bugId];
+  if (!bug) {
+    throw new Error(`Unknown bug "${bugId}". Register it in fixtures/known-bugs.json.`);
+  }
+  return bug;
+}
+
+/**
+ * Build the annotation that links a test to a registered bug
+ * Pass it in the test details: test('TC-25: ...', { annotation: knownBug('BUG-001') }, async () => {})
+ * @param bugId - The bug ID (e.g. 'BUG-001')
+ * @returns The test annotation
+ * @throws Error if the bug is not registered
+ */
+export function knownBug(bugId: string): { type: string; description: string } {
+  getKnownBug(bugId);
+  return { type: KNOWN_BUG_ANNOTATION, description: bugId };
+}
@@ -0,0 +1,265 @@
+import { ExpectMatcherState, MatcherReturnType, Page } from '@playwright/test';
+import { environment } from '../config/environments';
+import { ProductName } from '../fixtures/catalog';
+import { AuthenticatedPage } from '../pages/AuthenticatedPage';
+import { BasePage } from '../pages/BasePage';
+import { CartPage } from '../pages/CartPage';
+import { CheckoutCompletePage } from '../pages/CheckoutCompletePage';
+import { CheckoutInfoPage } from '../pages/CheckoutInfoPage';
+import { CheckoutOverviewPage } from '../pages/CheckoutOverviewPage';
+import { HeaderComponent } from '../pages/components/HeaderComponent';
+import { LoginPage } from '../pages/LoginPage';
+import { ProductDetailsPage } from '../pages/ProductDetailsPage';
+import { ProductsPage } from '../pages/ProductsPage';
+import { APP_PAGE_PATHS, AppPage } from './app-model';
+import { Money } from './money';
+
+/**
+ * SauceDemo expect matchers
+ * Registered with expect.extend in fixtures/test-fixtures.ts. Like Playwright's web-first assertions they
+ * read the page again until it shows what is expected or the expect timeout runs out, so they do not race
+ * the UI the way expect(await productsPage.header.getCartBadgeCount()).toBe(2) does.
+ */
+
+/** Product field the products page can be sorted by */
+export type SortKey = 'name' | 'price';
+
+/** Sort direction: 'asc' is A to Z or low to high */
+export type SortDirection = 'asc' | 'desc';
+
+/** Amounts of the checkout overview's order summary; omitted amounts are not checked */
+export interface OrderTotals {
+  subtotal?: Money;
+  tax?: Money;
+  total?: Money;
+}
+
+/** Options of every SauceDemo matcher */
+export interface MatcherOptions {
+  /** Time to keep retrying, in milliseconds (default: the expect timeout) */
+  timeout?: number;
+}
+
+/** A page object class, e.g. CartPage */
+export type PageObjectClass = new (page: Page) => BasePage;
+
+/** Page of the application each page object represents */
+const PAGE_OBJECT_PAGES = new Map<PageObjectClass, AppPage>([
+  [LoginPage, 'login'],
+  [ProductsPage, 'inventory'],
+  [ProductDetailsPage, 'details'],
+  [CartPage, 'cart'],
+  [CheckoutInfoPage, 'checkout-info'],
+  [CheckoutOverviewPage, 'checkout-overview'],
+  [CheckoutCompletePage, 'complete'],
+]);
+
+/** Pauses between reads while a matcher retries, in milliseconds; the last one repeats */
+const RETRY_INTERVALS = [100, 250, 500, 1000];
+
+/**
+ * Read a value until it matches, or stops matching under .not, or the timeout runs out
+ * A read that throws is retried like a mismatch; the error is rethrown if the last read throws.
+ * @returns Whether the value matched on the last read, and that value
+ */
+async function retryUntil<T>(
+  state: ExpectMatcherState,
+  options: MatcherOptions | undefined,
+  read: () => Promise<T>,
+  matches: (value: T) => boolean
+): Promise<{ pass: boolean; actual: T }> {
+  const deadline = Date.now() + (options?.timeout ?? state.timeout);
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const actual = await read();
+      const pass = matches(actual);
+      if (pass !== state.isNot || Date.now() >= deadline) {
+        return { pass, actual };
+      }
+    } catch (error) {
+      if (Date.now() >= deadline) {
+        throw error;
+      }
+    }
+
+    const interval = RETRY_INTERVALS[Math.min(attempt, RETRY_INTERVALS.length - 1)];
+    await new Promise(resolve => setTimeout(resolve, Math.min(interval, Math.max(deadline - Date.now(), 0))));
+  }
+}
+
+/**
+ * Build a matcher result whose message shows the hint and a diff of the expected and received values
+ */
+function result(
+  state: ExpectMatcherState,
+  name: string,
+  received: string,
+  expectedHint: string,
+  outcome: { pass: boolean; expected: unknown; actual: unknown }
+): MatcherReturnType {
+  const message = () => {
+    const hint = state.utils.matcherHint(name, received, expectedHint, { isNot: state.isNot });
+    const details = state.isNot
+      ? `Expected: not ${state.utils.printExpected(outcome.expected)}\nReceived: ${state.utils.printReceived(outcome.actual)}`
+      : state.utils.printDiffOrStringify(outcome.expected, outcome.actual, 'Expected', 'Received', false);
+    return `${hint}\n\n${details}`;
+  };
+
+  return { name, message, pass: outcome.pass, expected: outcome.expected, actual: outcome.actual };
+}
+
+/**
+ * Order a copy of the products by a field; products that compare equal keep their displayed order
+ */
+function sortProducts<T extends { name: string; price: Money }>(items: T[], key: SortKey, direction: SortDirection): T[] {
+  const sign = direction === 'asc' ? 1 : -1;
+  return [...items].sort((a, b) => sign * (key === 'name' ? a.name.localeCompare(b.name) : a.price.compare(b.price)));
+}
+
+/**
+ * Path of the page's URL relative to the environment's base URL, without the query
+ * @returns The path (e.g. '/cart.html'), or the whole URL when it is outside the application
+ */
+function appPath(page: Page): string {
+  const url = page.url();
+  if (!url.startsWith(environment.baseURL)) {
+    return url;
+  }
+  return url.slice(environment.baseURL.length).split(/[?#]/)[0] || '/';
+}
+
+/** The SauceDemo matchers, for expect.extend */
+export const sauceDemoMatchers = {
+  /**
+   * Expect the cart badge to show a count; 0 means no badge
+   * e.g. await expect(productsPage).toHaveCartCount(2)
+   */
+  async toHaveCartCount(
+    this: ExpectMatcherState,
+    received: Page | AuthenticatedPage | HeaderComponent,
+    expected: number,
+    options?: MatcherOptions
+  ): Promise<MatcherReturnType> {
+    const header =
+      received instanceof HeaderComponent
+        ? received
+        : received instanceof AuthenticatedPage
+          ? received.header
+          : new HeaderComponent(received);
+    const { pass, actual } = await retryUntil(this, options, () => header.getCartBadgeCount(), count => count === expected);
+    return result(this, 'toHaveCartCount', 'page', String(expected), { pass, expected, actual });
+  },
+
+  /**
+   * Expect the products page to list its products in order of a field
+   * e.g. await expect(productsPage).toBeSortedBy('price', 'desc')
+   */
+  async toBeSortedBy(
+    this: ExpectMatcherState,
+    received: ProductsPage,
+    key: SortKey,
+    direction: SortDirection = 'asc',
+    options?: MatcherOptions
+  ): Promise<MatcherReturnType> {
+    const describe = (items: { name: string; price: Money }[]) =>
+      items.map(item => (key === 'name' ? item.name : `${item.price.toString()} ${item.name}`));
+
+    let expected: string[] = [];
+    const { pass, actual } = await retryUntil(
+      this,
+      options,
+      () => received.getInventoryItems(),
+      items => {
+        expected = describe(sortProducts(items, key, direction));
+        return JSON.stringify(describe(items)) === JSON.stringify(expected);
+      }
+    );
+
+    return result(this, 'toBeSortedBy', 'productsPage', `${key} ${direction}`, {
+      pass,
+      expected,
+      actual: describe(actual),
+    });
+  },
+
+  /**
+   * Expect a product's card on the products page to show the Remove button
+   * e.g. await expect(productsPage).toShowProductAsAdded(backpack)
+   */
+  async toShowProductAsAdded(
+    this: ExpectMatcherState,
+    received: ProductsPage,
+    productName: ProductName,
+    options?: MatcherOptions
+  ): Promise<MatcherReturnType> {
+    const { pass, actual } = await retryUntil(
+      this,
+      options,
+      () => received.getInventoryCard(productName).getButtonState(),
+      state => state === 'remove'
+    );
+    return result(this, 'toShowProductAsAdded', 'productsPage', productName, {
+      pass,
+      expected: `${productName}: remove`,
+      actual: `${productName}: ${actual}`,
+    });
+  },
+
+  /**
+   * Expect the checkout overview's order summary to show amounts, to the cent
+   * e.g. await expect(checkoutOverviewPage).toHaveOrderTotals({ subtotal: quote.itemTotal, tax: quote.tax, total: quote.total })
+   */
+  async toHaveOrderTotals(
+    this: ExpectMatcherState,
+    received: CheckoutOverviewPage,
+    expected: OrderTotals,
+    options?: MatcherOptions
+  ): Promise<MatcherReturnType> {
+    const fields = (Object.keys(expected) as (keyof OrderTotals)[]).filter(field => expected[field] !== undefined);
+    const expectedAmounts = Object.fromEntries(fields.map(field => [field, expected[field]!.toString()]));
+    const readers: Record<keyof OrderTotals, () => Promise<Money>> = {
+      subtotal: () => received.getSubtotal(),
+      tax: () => received.getTax(),
+      total: () => received.getTotal(),
+    };
+
+    const { pass, actual } = await retryUntil(
+      this,
+      options,
+      async () => {
+        const amounts: Record<string, string> = {};
+        for (const field of fields) {
+          amounts[field] = (await readers[field]()).toString();
+        }
+        return amounts;
+      },
+      amounts => fields.every(field => amounts[field] === expectedAmounts[field])
+    );
+    return result(this, 'toHaveOrderTotals', 'checkoutOverviewPage', fields.join(', '), {
+      pass,
+      expected: expectedAmounts,
+      actual,
+    });
+  },
+
+  /**
+   * Expect the page to show the page a page object represents, by its URL path
+   * e.g. await expect(page).toBeOnPage(CartPage)
+   */
+  async toBeOnPage(
+    this: ExpectMatcherState,
+    received: Page,
+    pageObject: PageObjectClass,
+    options?: MatcherOptions
+  ): Promise<MatcherReturnType> {
+    const appPage = PAGE_OBJECT_PAGES.get(pageObject);
+    if (!appPage) {
+      throw new Error(`toBeOnPage: ${pageObject.name} is not the page object of an application page`);
+    }
+
+    const expected = APP_PAGE_PATHS[appPage];
+    const { pass, actual } = await retryUntil(this, options, async () => appPath(received), path => path === expected);
+    return result(this, 'toBeOnPage', 'page', pageObject.name, { pass, expected, actual });
+  },
+};
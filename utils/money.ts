@@ -0,0 +1,88 @@
+/**
+ * Money amount held in integer cents
+ * Prices are compared and summed in cents so that totals such as $29.99 + $9.99 are exact
+ * instead of accumulating floating point error.
+ */
+export class Money {
+  readonly cents: number;
+
+  private constructor(cents: number) {
+    if (!Number.isInteger(cents)) {
+      throw new Error(`Money must be a whole number of cents, got ${cents}`);
+    }
+    this.cents = cents;
+  }
+
+  /**
+   * Create an amount from a number of cents
+   * @param cents - The amount in cents (e.g. 2999)
+   */
+  static fromCents(cents: number): Money {
+    return new Money(cents);
+  }
+
+  /**
+   * Create an amount from a dollar value, rounded to the nearest cent
+   * @param dollars - The amount in dollars (e.g. 29.99)
+   */
+  static fromDollars(dollars: number): Money {
+    return new Money(Math.round(dollars * 100));
+  }
+
+  /**
+   * Parse the last dollar amount in a text, such as "$29.99" or "Item total: $39.98"
+   * @param text - The displayed text
+   * @returns The amount
+   * @throws Error if the text contains no dollar amount
+   */
+  static parse(text: string): Money {
+    const amounts = text.match(/-?\$\s*\d+(?:,\d{3})*(?:\.\d{1,2})?/g);
+    if (!amounts) {
+      throw new Error(`No dollar amount found in "${text}"`);
+    }
+
+    const amount = amounts[amounts.length - 1].replace(/[$,\s]/g, '');
+    const [whole, fraction = ''] = amount.replace('-', '').split('.');
+    const cents = parseInt(whole, 10) * 100 + parseInt(fraction.padEnd(2, '0'), 10);
+    return new Money(amount.startsWith('-') ? -cents : cents);
+  }
+
+  /**
+   * Sum a list of amounts
+   * @param amounts - The amounts to add up
+   */
+  static sum(amounts: Money[]): Money {
+    return amounts.reduce((total, amount) => total.add(amount), Money.fromCents(0));
+  }
+
+  /** The amount in dollars, for display or numeric comparisons */
+  get dollars(): number {
+    return this.cents / 100;
+  }
+
+  add(other: Money): Money {
+    return new Money(this.cents + other.cents);
+  }
+
+  subtract(other: Money): Money {
+    return new Money(this.cents - other.cents);
+  }
+
+  equals(other: Money): boolean {
+    return this.cents === other.cents;
+  }
+
+  /**
+   * Compare with another amount, for use with Array.prototype.sort
+   * @returns Negative if this amount is smaller, positive if larger, 0 if equal
+   */
+  compare(other: Money): number {
+    return this.cents - other.cents;
+  }
+
+  /** Format as SauceDemo displays prices (e.g. "$29.99") */
+  toString(): string {
+    const sign = this.cents < 0 ? '-' : '';
+    return `${sign}$${(Math.abs(this.cents) / 100).toFixed(2)}`;
+  }
+}
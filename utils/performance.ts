@@ -0,0 +1,78 @@
+import { getBudget, TimingMetric } from '../config/performance-budgets';
+
+/**
+ * Timing capture for page objects
+ * Page objects record navigation and action timings while a test runs; the performanceTracking fixture
+ * collects them after each test, compares them with config/performance-budgets.ts and attaches them
+ * to the report, where the performance reporter picks them up.
+ */
+
+/** Name of the test attachment holding the timings of a test */
+export const PERFORMANCE_ATTACHMENT = 'performance-timings.json';
+
+/** Annotation type added to a test for each timing over budget */
+export const PERFORMANCE_BREACH_ANNOTATION = 'performance-budget-breach';
+
+/** A timing recorded by a page object */
+export interface Timing {
+  /** Page object class name */
+  page: string;
+  metric: TimingMetric;
+  durationMs: number;
+  /** Budget from config/performance-budgets.ts, if the page has one for the metric */
+  budgetMs?: number;
+}
+
+// A worker runs one test at a time, so the timings of the running test can live at module level
+const timings: Timing[] = [];
+
+/**
+ * Record a timing for the running test
+ * @param page - The page object class name
+ * @param metric - The timing metric
+ * @param durationMs - The measured duration in milliseconds
+ */
+export function recordTiming(page: string, metric: TimingMetric, durationMs: number): void {
+  timings.push({ page, metric, durationMs: Math.round(durationMs), budgetMs: getBudget(page, metric) });
+}
+
+/**
+ * Run an action and record how long it took
+ * Nothing is recorded if the action throws.
+ * @param page - The page object class name
+ * @param metric - The timing metric
+ * @param action - The action to time
+ * @returns The action's result
+ */
+export async function measureTiming<T>(page: string, metric: TimingMetric, action: () => Promise<T>): Promise<T> {
+  const start = Date.now();
+  const result = await action();
+  recordTiming(page, metric, Date.now() - start);
+  return result;
+}
+
+/**
+ * Take the timings recorded since the last call
+ * @returns The recorded timings, oldest first
+ */
+export function takeTimings(): Timing[] {
+  return timings.splice(0, timings.length);
+}
+
+/**
+ * Check whether a timing exceeded its budget
+ * @param timing - The timing to check
+ * @returns True if the timing has a budget and took longer
+ */
+export function isOverBudget(timing: Timing): boolean {
+  return timing.budgetMs !== undefined && timing.durationMs > timing.budgetMs;
+}
+
+/**
+ * Describe a timing over budget
+ * @param timing - The timing
+ * @returns e.g. "LoginPage login-to-inventory took 5123ms (budget 2500ms)"
+ */
+export function describeBreach(timing: Timing): string {
+  return `${timing.page} ${timing.metric} took ${timing.durationMs}ms (budget ${timing.budgetMs}ms)`;
+}
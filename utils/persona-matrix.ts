@@ -0,0 +1,42 @@
+import { test } from '../fixtures/test-fixtures';
+import { Persona, PersonaName, personas } from '../fixtures/personas';
+import { extractTestId } from './test-id';
+
+/**
+ * Limit a persona list to the personas named in the PERSONAS environment variable
+ * @param names - The personas a spec supports
+ * @returns The personas to run, in the given order
+ */
+export function selectPersonas(names: PersonaName[]): PersonaName[] {
+  const requested = process.env.PERSONAS?.split(',').map(name => name.trim()).filter(Boolean);
+  return requested ? names.filter(name => requested.includes(name)) : names;
+}
+
+/**
+ * Run a group of tests once per persona
+ * Each persona gets its own describe block titled "<title> [<persona>]" with the persona fixture set.
+ * Tests whose ID is listed in the persona's expectedFailures are marked as expected to fail,
+ * so a quirk shows up as an expected failure and a fixed quirk as an unexpected pass.
+ * @param names - The personas to run the tests for (narrowed further by PERSONAS)
+ * @param title - The describe block title
+ * @param body - Declares the tests; receives the persona being run
+ */
+export function runForPersonas(names: PersonaName[], title: string, body: (persona: Persona) => void): void {
+  for (const name of selectPersonas(names)) {
+    const persona = personas[name];
+
+    test.describe(`${title} [${name}]`, () => {
+      test.use({ persona: name });
+
+      test.beforeEach(async ({}, testInfo) => {
+        const testId = extractTestId(testInfo.title);
+        const reason = testId ? persona.expectedFailures[testId] : undefined;
+        if (reason) {
+          test.fail(true, `${name}: ${reason}`);
+        }
+      });
+
+      body(persona);
+    });
+  }
+}
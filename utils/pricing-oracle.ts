@@ -0,0 +1,107 @@
+import { CatalogProduct, catalog } from '../fixtures/catalog';
+import { expect } from '../fixtures/test-fixtures';
+import { InventoryItem } from '../models/inventory-item';
+import { CheckoutOverviewPage } from '../pages/CheckoutOverviewPage';
+import { Money } from './money';
+
+/**
+ * Pricing oracle for the checkout overview
+ * Computes the expected item total, tax and total of an order from the catalog, independently of the
+ * application, and verifies the amounts CheckoutOverviewPage reads exactly, in integer cents.
+ */
+
+/** How tax is calculated on the item total */
+export interface TaxRule {
+  /** Tax rate in basis points (800 = 8%), so the calculation stays in integers */
+  rateBasisPoints: number;
+  /** How a fraction of a cent is rounded */
+  rounding: 'half-up' | 'down';
+}
+
+/** SauceDemo charges 8% of the item total, rounded to the nearest cent */
+export const SAUCEDEMO_TAX_RULE: TaxRule = { rateBasisPoints: 800, rounding: 'half-up' };
+
+/** Expected amounts of an order */
+export interface OrderQuote {
+  /** Price of each product, in the order given */
+  itemPrices: Money[];
+  itemTotal: Money;
+  tax: Money;
+  total: Money;
+}
+
+/** Options for quoting and verifying an order */
+export interface PricingOptions {
+  /** Tax rule to apply (default: SAUCEDEMO_TAX_RULE) */
+  taxRule?: TaxRule;
+  /** Products to price from (default: the expected catalog) */
+  products?: CatalogProduct[];
+}
+
+/**
+ * Calculate the tax on an item total
+ * @param itemTotal - The item total
+ * @param taxRule - The tax rule to apply
+ * @returns The tax, rounded to cents by the rule
+ */
+export function calculateTax(itemTotal: Money, taxRule: TaxRule = SAUCEDEMO_TAX_RULE): Money {
+  const exactCents = (itemTotal.cents * taxRule.rateBasisPoints) / 10000;
+  const cents = taxRule.rounding === 'half-up' ? Math.round(exactCents) : Math.floor(exactCents);
+  return Money.fromCents(cents);
+}
+
+/**
+ * Compute the expected amounts of an order
+ * @param productNames - Names of the products in the cart; a name listed twice is priced twice
+ * @param options - Tax rule and products to price from
+ * @returns The expected item prices, item total, tax and total
+ * @throws Error if a product is not in the catalog
+ */
+export function quoteOrder(productNames: string[], options: PricingOptions = {}): OrderQuote {
+  const products = options.products ?? catalog;
+  const itemPrices = productNames.map(name => {
+    const product = products.find(candidate => candidate.name === name);
+    if (!product) {
+      throw new Error(`Cannot price "${name}": it is not in the catalog`);
+    }
+    return product.price;
+  });
+
+  const itemTotal = Money.sum(itemPrices);
+  const tax = calculateTax(itemTotal, options.taxRule);
+  return { itemPrices, itemTotal, tax, total: itemTotal.add(tax) };
+}
+
+/**
+ * Verify the items and amounts on the checkout overview page
+ * - Every listed item shows the price the products page showed for it (when inventory is given)
+ *   and the catalog price
+ * - Item total, tax and total match the quote to the cent
+ * @param checkoutOverviewPage - The checkout overview page object, showing the order
+ * @param productNames - Names of the products in the cart, in the order they were added
+ * @param options - Tax rule and products to price from, plus the items read from the products page
+ * @returns The quote the page was verified against
+ */
+export async function verifyOrderPricing(
+  checkoutOverviewPage: CheckoutOverviewPage,
+  productNames: string[],
+  options: PricingOptions & { inventory?: InventoryItem[] } = {}
+): Promise<OrderQuote> {
+  const quote = quoteOrder(productNames, options);
+
+  // Verify the listed items and their prices
+  const itemNames = await checkoutOverviewPage.getItemNames();
+  const itemPrices = (await checkoutOverviewPage.getItemPrices()).map(price => price.toString());
+  expect(itemNames, 'checkout overview items').toEqual(productNames);
+  expect(itemPrices, 'checkout overview item prices vs catalog').toEqual(quote.itemPrices.map(price => price.toString()));
+
+  if (options.inventory) {
+    const inventoryPrices = productNames.map(name => options.inventory!.find(item => item.name === name)?.price.toString());
+    expect(itemPrices, 'checkout overview item prices vs products page').toEqual(inventoryPrices);
+  }
+
+  // Verify the order summary to the cent
+  await expect(checkoutOverviewPage).toHaveOrderTotals({ subtotal: quote.itemTotal, tax: quote.tax, total: quote.total });
+
+  return quote;
+}
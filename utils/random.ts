@@ -0,0 +1,92 @@
+/**
+ * Seeded pseudo-random numbers (mulberry32)
+ * The same seed always produces the same sequence, so a run driven by it can be replayed exactly.
+ */
+export class SeededRandom {
+  private state: number;
+
+  /**
+   * @param seed - Any 32-bit integer; other numbers are truncated
+   */
+  constructor(readonly seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  /**
+   * Next number in [0, 1)
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Next integer in [0, max)
+   * @param max - Exclusive upper bound
+   */
+  int(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+
+  /**
+   * Pick an element of a non-empty array
+   * @param items - The candidates
+   */
+  pick<T>(items: readonly T[]): T {
+    if (items.length === 0) {
+      throw new Error('Cannot pick from an empty list');
+    }
+    return items[this.int(items.length)];
+  }
+
+  /**
+   * Pick an element of a non-empty array with probability proportional to its weight
+   * @param items - The candidates
+   * @param weight - Weight of a candidate; must be positive
+   */
+  pickWeighted<T>(items: readonly T[], weight: (item: T) => number): T {
+    const total = items.reduce((sum, item) => sum + weight(item), 0);
+    let target = this.next() * total;
+    for (const item of items) {
+      target -= weight(item);
+      if (target < 0) {
+        return item;
+      }
+    }
+    return this.pick(items);
+  }
+}
+
+/**
+ * Create a seed for runs that do not specify one
+ * @returns A 32-bit seed
+ */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
+
+/**
+ * Parse a comma-separated list of seeds, e.g. EXPLORER_SEEDS
+ * @param value - Seeds separated by commas; "random" stands for a new random seed
+ * @returns The seeds, with every "random" replaced by a seed of its own
+ * @throws Error if an entry is neither a whole number nor "random"
+ */
+export function parseSeedList(value: string): number[] {
+  return value
+    .split(',')
+    .map(seed => seed.trim())
+    .filter(Boolean)
+    .map(seed => {
+      if (seed === 'random') {
+        return randomSeed();
+      }
+      const parsed = Number(seed);
+      if (!Number.isInteger(parsed)) {
+        throw new Error(`Seeds must be whole numbers or "random", got "${seed}"`);
+      }
+      return parsed >>> 0;
+    });
+}
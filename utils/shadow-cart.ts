@@ -0,0 +1,71 @@
+import { Page } from '@playwright/test';
+
+/**
+ * Shadow cart: the cart contents a test expects, kept alongside the real cart
+ * Page object cart actions (add, remove, finish checkout) update the shadow cart of their page,
+ * and verifyCart() compares the UI with it, so specs no longer track expected cart state by hand.
+ */
+export class ShadowCart {
+  private readonly items: string[] = [];
+
+  /** Names of the products expected in the cart, in the order they were added */
+  get productNames(): string[] {
+    return [...this.items];
+  }
+
+  /** Number of products expected in the cart */
+  get count(): number {
+    return this.items.length;
+  }
+
+  /**
+   * Record that a product was added; adding a product already in the cart has no effect
+   * @param productName - The name of the product
+   */
+  add(productName: string): void {
+    if (!this.items.includes(productName)) {
+      this.items.push(productName);
+    }
+  }
+
+  /**
+   * Record that a product was removed
+   * @param productName - The name of the product
+   */
+  remove(productName: string): void {
+    const index = this.items.indexOf(productName);
+    if (index !== -1) {
+      this.items.splice(index, 1);
+    }
+  }
+
+  /** Record that the cart was emptied, e.g. by finishing checkout */
+  clear(): void {
+    this.items.length = 0;
+  }
+
+  /**
+   * Check if a product is expected in the cart
+   * @param productName - The name of the product
+   */
+  has(productName: string): boolean {
+    return this.items.includes(productName);
+  }
+}
+
+/** One shadow cart per test page; released with the page */
+const shadowCarts = new WeakMap<Page, ShadowCart>();
+
+/**
+ * Get the shadow cart of a page, creating an empty one on first use
+ * @param page - The Playwright page
+ * @returns The page's shadow cart
+ */
+export function shadowCartFor(page: Page): ShadowCart {
+  let cart = shadowCarts.get(page);
+  if (!cart) {
+    cart = new ShadowCart();
+    shadowCarts.set(page, cart);
+  }
+  return cart;
+}
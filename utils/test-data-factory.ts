@@ -0,0 +1,337 @@
+import { EnvironmentCredentials } from '../config/environments';
+import { PersonaName, personaCredentials, personas } from '../fixtures/personas';
+import { CustomerInfo } from '../models/customer-info';
+import { randomSeed, SeededRandom } from './random';
+
+/**
+ * Seeded test-data factory
+ * Generates customer details and credentials from a seed, so every generated value can be reproduced.
+ * The run's seed comes from DATA_SEED (a new random seed when unset) and each test derives its own seed
+ * from it and the test's title, so a test gets the same data whatever else runs alongside it.
+ * A failing test reports DATA_SEED=<seed> (see the dataFactory fixture); rerunning with it repeats the data.
+ */
+
+/**
+ * Kind of generated input
+ * - realistic: plausible names and postal codes
+ * - unicode: letters outside ASCII (accents, Cyrillic, Greek, CJK, fullwidth digits)
+ * - long: LONG_INPUT_LENGTH characters
+ * - whitespace: only spaces, tabs and non-breaking spaces
+ * - injection: SQL, HTML and template injection strings
+ * - emoji: emoji, alone or mixed with letters
+ */
+export type DataVariant = 'realistic' | 'unicode' | 'long' | 'whitespace' | 'injection' | 'emoji';
+
+/** Every data variant */
+export const DATA_VARIANTS: DataVariant[] = ['realistic', 'unicode', 'long', 'whitespace', 'injection', 'emoji'];
+
+/** Length of 'long' inputs */
+export const LONG_INPUT_LENGTH = 256;
+
+/** Annotation type carrying the DATA_SEED that reproduces a test's generated data */
+export const DATA_SEED_ANNOTATION = 'data-seed';
+
+const FIRST_NAMES = ['Lyle', 'Maria', 'Ahmed', 'Priya', 'Kenji', 'Olivia', 'Mateo', 'Fatima', 'Noah', 'Aisha', 'Liam', 'Chloe'];
+const LAST_NAMES = ['Trillanes', 'Garcia', 'Okafor', 'Nguyen', 'Smith', "O'Brien", 'Kowalski', 'Haddad', 'Tanaka', 'Rossi', 'Mendez', 'Berg'];
+const UNICODE_FIRST_NAMES = ['Zoë', 'Łukasz', 'Søren', 'José', 'Ngọc', 'Дмитрий', 'Αθηνά', '美咲', 'Björn', 'Çağla'];
+const UNICODE_LAST_NAMES = ['Dvořák', 'Ødegård', 'Muñoz', 'Đặng', 'Иванова', 'Παπαδόπουλος', '佐藤', 'Müller', 'Şahin', 'Żółć'];
+const UNICODE_POSTAL_CODES = ['１２３４５', '١٢٣٤٥', '१२३४५', 'Ⅻ-345', '〒100-0001'];
+const WHITESPACE = [' ', '   ', '\t', '\u00a0', ' \u2003 '];
+const INJECTION = [
+  "Robert'); DROP TABLE customers;--",
+  "' OR '1'='1",
+  '<script>alert(1)</script>',
+  '<img src=x onerror=alert(1)>',
+  '{{7*7}}',
+  '${7*7}',
+  '../../etc/passwd',
+];
+const EMOJI = ['😀', '👩‍💻', '🦊', '🇺🇸', 'Anna 🌸', '🍕 Lover'];
+const LETTERS = 'abcdefghijklmnopqrstuvwxyz';
+const USERNAME_SUFFIXES = ['user', 'shopper', 'buyer', 'tester', 'customer'];
+
+/**
+ * Read the data seed from the DATA_SEED environment variable
+ * @param value - The variable's value
+ * @returns The seed, or a new random seed when unset
+ * @throws Error if the value is not a whole number
+ */
+export function parseDataSeed(value: string | undefined): number {
+  if (value === undefined || value === '' || value === 'random') {
+    return randomSeed();
+  }
+  const seed = Number(value);
+  if (!Number.isInteger(seed)) {
+    throw new Error(`DATA_SEED must be a whole number, got "${value}"`);
+  }
+  return seed >>> 0;
+}
+
+/**
+ * Derive a test's seed from the run's seed and the test's title path (FNV-1a)
+ * @param runSeed - The run's data seed
+ * @param titlePath - The test's file and titles, e.g. testInfo.titlePath
+ * @returns The test's seed
+ */
+export function testDataSeed(runSeed: number, titlePath: string[]): number {
+  let hash = (0x811c9dc5 ^ runSeed) >>> 0;
+  for (const char of titlePath.join(' › ')) {
+    hash = Math.imul(hash ^ char.charCodeAt(0), 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+/**
+ * Builder for checkout customer details
+ * Fields start as generated values of the builder's variant; set, regenerate or empty them before build().
+ */
+export class CustomerInfoBuilder {
+  private readonly customer: CustomerInfo;
+
+  constructor(private readonly factory: TestDataFactory, variant: DataVariant) {
+    this.customer = {
+      firstName: factory.firstName(variant),
+      lastName: factory.lastName(variant),
+      postalCode: factory.postalCode(variant),
+    };
+  }
+
+  /**
+   * Set the first name, or generate one of a variant
+   * @param value - The first name, or the variant to generate
+   */
+  withFirstName(value: string | DataVariant): this {
+    this.customer.firstName = isVariant(value) ? this.factory.firstName(value) : value;
+    return this;
+  }
+
+  /**
+   * Set the last name, or generate one of a variant
+   * @param value - The last name, or the variant to generate
+   */
+  withLastName(value: string | DataVariant): this {
+    this.customer.lastName = isVariant(value) ? this.factory.lastName(value) : value;
+    return this;
+  }
+
+  /**
+   * Set the postal code, or generate one of a variant
+   * @param value - The postal code, or the variant to generate
+   */
+  withPostalCode(value: string | DataVariant): this {
+    this.customer.postalCode = isVariant(value) ? this.factory.postalCode(value) : value;
+    return this;
+  }
+
+  /**
+   * Leave a field empty
+   * @param field - The field to clear
+   */
+  without(field: keyof CustomerInfo): this {
+    this.customer[field] = '';
+    return this;
+  }
+
+  /**
+   * @returns The customer details, for CheckoutInfoPage.fillCustomerInfo()
+   */
+  build(): CustomerInfo {
+    return { ...this.customer };
+  }
+}
+
+/**
+ * Builder for login credentials
+ * Starts with the credentials of standard_user in the active environment.
+ */
+export class CredentialsBuilder {
+  private readonly credentials: EnvironmentCredentials;
+
+  constructor(private readonly factory: TestDataFactory) {
+    this.credentials = personaCredentials('standard_user');
+  }
+
+  /**
+   * Use the valid credentials of a persona
+   * @param persona - The persona
+   */
+  forPersona(persona: PersonaName): this {
+    Object.assign(this.credentials, personaCredentials(persona));
+    return this;
+  }
+
+  /**
+   * Use a username no SauceDemo account has
+   * @param variant - Kind of username to generate (default: realistic)
+   */
+  withUnknownUsername(variant: DataVariant = 'realistic'): this {
+    this.credentials.username = this.factory.unknownUsername(variant);
+    return this;
+  }
+
+  /**
+   * Use a password that is not the SauceDemo password
+   * @param variant - Kind of password to generate (default: realistic)
+   */
+  withWrongPassword(variant: DataVariant = 'realistic'): this {
+    this.credentials.password = this.factory.wrongPassword(variant);
+    return this;
+  }
+
+  /**
+   * Leave a field empty
+   * @param field - The field to clear
+   */
+  without(field: keyof EnvironmentCredentials): this {
+    this.credentials[field] = '';
+    return this;
+  }
+
+  /**
+   * @returns The credentials, for LoginPage.loginWith()
+   */
+  build(): EnvironmentCredentials {
+    return { ...this.credentials };
+  }
+}
+
+function isVariant(value: string): value is DataVariant {
+  return (DATA_VARIANTS as string[]).includes(value);
+}
+
+/**
+ * TestDataFactory class generates test data from a seed
+ * The same seed and the same sequence of calls always produce the same values.
+ */
+export class TestDataFactory {
+  private readonly random: SeededRandom;
+
+  /**
+   * @param seed - The seed, e.g. testDataSeed(runDataSeed, testInfo.titlePath)
+   */
+  constructor(readonly seed: number) {
+    this.random = new SeededRandom(seed);
+  }
+
+  /**
+   * Start building customer details
+   * @param variant - Kind of values to generate for every field (default: realistic)
+   */
+  customer(variant: DataVariant = 'realistic'): CustomerInfoBuilder {
+    return new CustomerInfoBuilder(this, variant);
+  }
+
+  /**
+   * Start building login credentials
+   */
+  credentials(): CredentialsBuilder {
+    return new CredentialsBuilder(this);
+  }
+
+  /**
+   * Generate a first name
+   * @param variant - Kind of value (default: realistic)
+   */
+  firstName(variant: DataVariant = 'realistic'): string {
+    return this.name(variant, FIRST_NAMES, UNICODE_FIRST_NAMES);
+  }
+
+  /**
+   * Generate a last name
+   * @param variant - Kind of value (default: realistic)
+   */
+  lastName(variant: DataVariant = 'realistic'): string {
+    return this.name(variant, LAST_NAMES, UNICODE_LAST_NAMES);
+  }
+
+  /**
+   * Generate a postal code
+   * Realistic codes follow the US, UK, Canadian or German format.
+   * @param variant - Kind of value (default: realistic)
+   */
+  postalCode(variant: DataVariant = 'realistic'): string {
+    switch (variant) {
+      case 'realistic':
+        return this.random.pick([
+          () => this.digits(5),
+          () => `${this.letters(2).toUpperCase()}${this.digits(1)} ${this.digits(1)}${this.letters(2).toUpperCase()}`,
+          () => `${this.letters(1).toUpperCase()}${this.digits(1)}${this.letters(1).toUpperCase()} ${this.digits(1)}${this.letters(1).toUpperCase()}${this.digits(1)}`,
+          () => `${this.random.int(9) + 1}${this.digits(4)}`,
+        ])();
+      case 'unicode':
+        return this.random.pick(UNICODE_POSTAL_CODES);
+      case 'long':
+        return this.digits(LONG_INPUT_LENGTH);
+      default:
+        return this.common(variant);
+    }
+  }
+
+  /**
+   * Generate a username that belongs to no SauceDemo account
+   * @param variant - Kind of value (default: realistic)
+   */
+  unknownUsername(variant: DataVariant = 'realistic'): string {
+    const usernames = Object.values(personas).map(persona => persona.username);
+    let username: string;
+    do {
+      username = variant === 'realistic'
+        ? `${this.random.pick(FIRST_NAMES).toLowerCase().replace(/\W/g, '')}_${this.random.pick(USERNAME_SUFFIXES)}`
+        : this.firstName(variant);
+    } while (usernames.includes(username));
+    return username;
+  }
+
+  /**
+   * Generate a password that is not the SauceDemo password
+   * @param variant - Kind of value (default: realistic)
+   */
+  wrongPassword(variant: DataVariant = 'realistic'): string {
+    const validPassword = personaCredentials('standard_user').password;
+    let password: string;
+    do {
+      password = variant === 'realistic' ? `${this.letters(8)}_${this.digits(3)}` : this.lastName(variant);
+    } while (password === validPassword);
+    return password;
+  }
+
+  private name(variant: DataVariant, realistic: string[], unicode: string[]): string {
+    switch (variant) {
+      case 'realistic':
+        return this.random.pick(realistic);
+      case 'unicode':
+        return this.random.pick(unicode);
+      case 'long': {
+        const name = this.random.pick(realistic);
+        return name + this.letters(LONG_INPUT_LENGTH - name.length);
+      }
+      default:
+        return this.common(variant);
+    }
+  }
+
+  /** Values shared by every field for the whitespace, injection and emoji variants */
+  private common(variant: DataVariant): string {
+    switch (variant) {
+      case 'whitespace':
+        return this.random.pick(WHITESPACE);
+      case 'injection':
+        return this.random.pick(INJECTION);
+      case 'emoji':
+        return this.random.pick(EMOJI);
+      default:
+        throw new Error(`No shared values for the ${variant} variant`);
+    }
+  }
+
+  private letters(count: number): string {
+    return Array.from({ length: count }, () => this.random.pick(LETTERS.split(''))).join('');
+  }
+
+  private digits(count: number): string {
+    return Array.from({ length: count }, () => String(this.random.int(10))).join('');
+  }
+}
+
+/** The data seed of this run; playwright.config.ts passes it to the workers through DATA_SEED */
+export const runDataSeed: number = parseDataSeed(process.env.DATA_SEED);
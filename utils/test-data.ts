@@ -0,0 +1,184 @@
+import { existsSync, readFileSync } from 'fs';
+import path from 'path';
+import { environment } from '../config/environments';
+import { PRODUCT_NAMES, ProductName, SortOption } from '../fixtures/catalog';
+import testDataJson from '../fixtures/test-data.json';
+
+/**
+ * Typed test data
+ * fixtures/test-data.json is checked against a schema when this module loads, so a misspelt key or a product
+ * missing from the catalog fails before any test runs, naming the file and the field. The TestData type is
+ * inferred from the same schema: product names are ProductName and sort options are SortOption values.
+ * The active environment can override any field in fixtures/test-data.<environment>.json (e.g.
+ * test-data.staging.json), which holds only the fields it changes and is checked against the same schema.
+ *
+ * Specs import { testData } from this module instead of the JSON file.
+ */
+
+/** Schema of a text field */
+interface StringSchema {
+  kind: 'string';
+}
+
+/** Schema of a field holding one of a fixed set of values */
+interface OneOfSchema<T extends string> {
+  kind: 'oneOf';
+  /** What the values are, for error messages (e.g. 'a catalog product name') */
+  description: string;
+  values: readonly T[];
+}
+
+/** Schema of an object with a fixed set of keys */
+interface ObjectSchema<F extends Record<string, Schema>> {
+  kind: 'object';
+  fields: F;
+}
+
+type Schema = StringSchema | OneOfSchema<string> | ObjectSchema<Record<string, Schema>>;
+
+/** The value type a schema describes */
+type Infer<S> = S extends OneOfSchema<infer T>
+  ? T
+  : S extends StringSchema
+    ? string
+    : S extends ObjectSchema<infer F>
+      ? { [K in keyof F]: Infer<F[K]> }
+      : never;
+
+const text = (): StringSchema => ({ kind: 'string' });
+
+const oneOf = <T extends string>(description: string, values: readonly T[]): OneOfSchema<T> => ({
+  kind: 'oneOf',
+  description,
+  values,
+});
+
+const object = <F extends Record<string, Schema>>(fields: F): ObjectSchema<F> => ({ kind: 'object', fields });
+
+/** An object whose given keys all hold values of one schema */
+const keyed = <K extends string, S extends Schema>(keys: readonly K[], value: S): ObjectSchema<Record<K, S>> =>
+  object(Object.fromEntries(keys.map(key => [key, value])) as Record<K, S>);
+
+const productName = oneOf<ProductName>('a catalog product name', PRODUCT_NAMES);
+
+/** Schema of fixtures/test-data.json */
+const testDataSchema = object({
+  customerInfo: object({
+    valid: object({ firstName: text(), lastName: text(), postalCode: text() }),
+  }),
+  products: keyed(['backpack', 'bikeLight', 'boltTShirt', 'fleeceJacket', 'onesie', 'tShirtRed'] as const, productName),
+  sortOptions: keyed(
+    ['nameAZ', 'nameZA', 'priceLowHigh', 'priceHighLow'] as const,
+    oneOf<SortOption>('a sort option', Object.values(SortOption))
+  ),
+});
+
+/** Contents of fixtures/test-data.json */
+export type TestData = Infer<typeof testDataSchema>;
+
+/**
+ * Check a value against a schema
+ * @param value - The value
+ * @param schema - The schema
+ * @param field - Path of the value, for error messages (e.g. 'products.backpack')
+ * @param partial - Allow object keys to be missing, as in an override file
+ * @returns One message per problem found; empty when the value matches
+ */
+function checkSchema(value: unknown, schema: Schema, field: string, partial: boolean): string[] {
+  const name = field || 'the file';
+
+  switch (schema.kind) {
+    case 'string':
+      return typeof value === 'string' ? [] : [`${name} must be a string, got ${JSON.stringify(value)}`];
+    case 'oneOf':
+      return schema.values.includes(value as string)
+        ? []
+        : [`${name} must be ${schema.description} (${schema.values.join(', ')}), got ${JSON.stringify(value)}`];
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return [`${name} must be an object, got ${JSON.stringify(value)}`];
+      }
+
+      const prefix = field ? `${field}.` : '';
+      const entries = value as Record<string, unknown>;
+      const problems = Object.keys(entries)
+        .filter(key => !(key in schema.fields))
+        .map(key => `${prefix}${key} is not a known field (expected one of: ${Object.keys(schema.fields).join(', ')})`);
+
+      for (const [key, fieldSchema] of Object.entries(schema.fields)) {
+        if (!(key in entries)) {
+          if (!partial) {
+            problems.push(`${prefix}${key} is missing`);
+          }
+          continue;
+        }
+        problems.push(...checkSchema(entries[key], fieldSchema, `${prefix}${key}`, partial));
+      }
+      return problems;
+    }
+  }
+}
+
+/**
+ * Copy a value with an override's fields applied; objects are merged key by key, anything else is replaced
+ */
+function applyOverride(base: unknown, override: unknown): unknown {
+  if (typeof base !== 'object' || base === null || typeof override !== 'object' || override === null) {
+    return override;
+  }
+
+  const merged: Record<string, unknown> = { ...(base as Record<string, unknown>) };
+  for (const [key, value] of Object.entries(override)) {
+    merged[key] = applyOverride(merged[key], value);
+  }
+  return merged;
+}
+
+/**
+ * Check test data and apply the environment's overrides
+ * @param data - The contents of fixtures/test-data.json
+ * @param override - The contents of the environment's override file, if it has one
+ * @param overrideFile - Name of the override file, for error messages
+ * @returns The test data with the overrides applied
+ * @throws Error listing every field of either file that does not match the schema
+ */
+export function validateTestData(data: unknown, override?: unknown, overrideFile = 'the override file'): TestData {
+  const sources: [string, string[]][] = [['fixtures/test-data.json', checkSchema(data, testDataSchema, '', false)]];
+  if (override !== undefined) {
+    sources.push([overrideFile, checkSchema(override, testDataSchema, '', true)]);
+  }
+
+  const invalid = sources.filter(([, problems]) => problems.length > 0);
+  if (invalid.length > 0) {
+    throw new Error(
+      invalid.map(([file, problems]) => `Invalid test data in ${file}:\n${problems.map(problem => `  - ${problem}`).join('\n')}`).join('\n')
+    );
+  }
+
+  return (override === undefined ? data : applyOverride(data, override)) as TestData;
+}
+
+/**
+ * Load the test data for an environment
+ * @param environmentName - The environment whose override file applies (default: the active environment)
+ * @returns The checked test data
+ * @throws Error if a file does not match the schema or the override file is not valid JSON
+ */
+export function loadTestData(environmentName: string = environment.name): TestData {
+  const overrideFile = `fixtures/test-data.${environmentName}.json`;
+  const overridePath = path.join(__dirname, '..', overrideFile);
+  if (!existsSync(overridePath)) {
+    return validateTestData(testDataJson);
+  }
+
+  let override: unknown;
+  try {
+    override = JSON.parse(readFileSync(overridePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`${overrideFile} is not valid JSON: ${(error as Error).message}`);
+  }
+  return validateTestData(testDataJson, override, overrideFile);
+}
+
+/** Test data of the active environment */
+export const testData: TestData = loadTestData();
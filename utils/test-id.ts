@@ -0,0 +1,31 @@
+/**
+ * Helpers for the test IDs that prefix test titles (e.g. "TC-05: Should add single product to cart")
+ */
+
+/** Matches a test ID such as TC-05 or PC-02 at the start of a test title */
+const TEST_ID_PATTERN = /^([A-Z]{2,}-\d+)\b/;
+
+/**
+ * Extract the test ID from a test title
+ * @param title - The test title
+ * @returns The test ID, or undefined if the title does not start with one
+ */
+export function extractTestId(title: string): string | undefined {
+  const match = title.trim().match(TEST_ID_PATTERN);
+  return match ? match[1] : undefined;
+}
+
+/** Annotation type that sets a test's ID when the title does not start with one */
+export const TEST_ID_ANNOTATION = 'test-id';
+
+/**
+ * Find the test ID of a test from its annotations or title
+ * A 'test-id' annotation takes precedence over the title prefix.
+ * @param title - The test title
+ * @param annotations - The test's annotations
+ * @returns The test ID, or undefined if the test has none
+ */
+export function findTestId(title: string, annotations: { type: string; description?: string }[]): string | undefined {
+  const annotation = annotations.find(a => a.type === TEST_ID_ANNOTATION && a.description);
+  return annotation?.description ?? extractTestId(title);
+}
@@ -0,0 +1,98 @@
+import ExcelJS from 'exceljs';
+import path from 'path';
+
+/** The assessment workbook holding the manual test plan */
+export const TEST_PLAN_PATH = path.join(__dirname, '..', 'QA Engineer Assessment.xlsx');
+
+/** A test case from the manual test plan */
+export interface TestPlanCase {
+  id: string;
+  title: string;
+  preconditions: string;
+  steps: string;
+  expectedResult: string;
+}
+
+/** Header labels of the test plan columns */
+const PLAN_HEADERS = {
+  id: 'TC ID',
+  title: 'Test Case Title',
+  preconditions: 'Preconditions',
+  steps: 'Steps',
+  expectedResult: 'Expected Result',
+} as const;
+
+/**
+ * Read the test cases from the assessment workbook
+ * The first worksheet holds a header row (TC ID, Test Case Title, ...) followed by one row per case;
+ * rows without a TC ID, such as trailing notes, are skipped.
+ * @param workbookPath - Path to the workbook (default: the assessment workbook)
+ * @returns The test cases in sheet order
+ * @throws Error if the worksheet has no TC ID header row
+ */
+export async function readTestPlan(workbookPath: string = TEST_PLAN_PATH): Promise<TestPlanCase[]> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.readFile(workbookPath);
+  const sheet = workbook.worksheets[0];
+
+  // Locate the header row and the column of each field
+  let headerRow = 0;
+  const columns: Partial<Record<keyof TestPlanCase, number>> = {};
+  sheet.eachRow((row, rowNumber) => {
+    if (headerRow) {
+      return;
+    }
+    row.eachCell((cell, colNumber) => {
+      for (const [field, label] of Object.entries(PLAN_HEADERS)) {
+        if (cellText(cell) === label) {
+          columns[field as keyof TestPlanCase] = colNumber;
+        }
+      }
+    });
+    if (columns.id) {
+      headerRow = rowNumber;
+    }
+  });
+
+  if (!headerRow || !columns.id) {
+    throw new Error(`No "${PLAN_HEADERS.id}" header row found in ${workbookPath}`);
+  }
+
+  const cases: TestPlanCase[] = [];
+  sheet.eachRow((row, rowNumber) => {
+    const text = (column?: number) => (column ? cellText(row.getCell(column)) : '');
+    const id = text(columns.id);
+    if (rowNumber <= headerRow || !/^[A-Z]{2,}-\d+$/.test(id)) {
+      return;
+    }
+    cases.push({
+      id,
+      title: text(columns.title),
+      preconditions: text(columns.preconditions),
+      steps: text(columns.steps),
+      expectedResult: text(columns.expectedResult),
+    });
+  });
+
+  return cases;
+}
+
+/**
+ * Get the plain text of a cell
+ * Hyperlink cells whose text is rich text (such as the URLs in the Steps column) report it as an object
+ * from cell.text, so rich text runs are joined here.
+ */
+function cellText(cell: ExcelJS.Cell): string {
+  const toText = (value: unknown): string => {
+    if (value && typeof value === 'object') {
+      if ('richText' in value) {
+        return (value as ExcelJS.CellRichTextValue).richText.map(run => run.text).join('');
+      }
+      if ('text' in value) {
+        return toText((value as { text: unknown }).text);
+      }
+    }
+    return value === null || value === undefined ? '' : String(value);
+  };
+  return toText(cell.value).trim();
+}
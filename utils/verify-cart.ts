@@ -0,0 +1,40 @@
+import { expect, Page } from '@playwright/test';
+import { CartPage } from '../pages/CartPage';
+import { CheckoutOverviewPage } from '../pages/CheckoutOverviewPage';
+import { ProductDetailsPage } from '../pages/ProductDetailsPage';
+import { ProductsPage } from '../pages/ProductsPage';
+import { shadowCartFor } from './shadow-cart';
+
+/**
+ * Verify the cart shown on the current page against the page's shadow cart
+ * - Every authenticated page: the cart badge shows the expected count (no badge when empty)
+ * - Products page: exactly the expected products show a Remove button
+ * - Product details page: the button matches whether the product is expected in the cart
+ * - Cart page: the rows list the expected products in the order they were added
+ * - Checkout overview: the items list the expected products in the order they were added
+ * @param page - The Playwright page, showing a page with the SauceDemo header
+ */
+export async function verifyCart(page: Page): Promise<void> {
+  const shadowCart = shadowCartFor(page);
+  const expectedNames = shadowCart.productNames;
+  const productsPage = new ProductsPage(page);
+  const path = new URL(page.url()).pathname;
+
+  expect(await productsPage.header.getCartBadgeCount(), 'cart badge').toBe(shadowCart.count);
+
+  if (path.endsWith('/inventory.html')) {
+    const items = await productsPage.getInventoryItems();
+    const addedNames = items.filter(item => item.buttonState === 'remove').map(item => item.name);
+    expect(addedNames.sort(), 'products showing Remove').toEqual([...expectedNames].sort());
+  } else if (path.endsWith('/inventory-item.html')) {
+    const productDetailsPage = new ProductDetailsPage(page);
+    const productName = await productDetailsPage.getProductName();
+    expect(await productDetailsPage.isRemoveButtonVisible(), `Remove button for ${productName}`).toBe(
+      shadowCart.has(productName)
+    );
+  } else if (path.endsWith('/cart.html')) {
+    expect(await new CartPage(page).getCartItemNames(), 'cart page rows').toEqual(expectedNames);
+  } else if (path.endsWith('/checkout-step-two.html')) {
+    expect(await new CheckoutOverviewPage(page).getItemNames(), 'checkout overview items').toEqual(expectedNames);
+  }
+}